@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { OAuthFlow } from './oauth-flow';
+import { TokenManager } from './token-manager';
+import { OAuthError, TwitchOAuthClient } from './twitch-oauth';
+
+const REDIRECT_URI = 'http://localhost:3000/auth/callback';
+
+type DevicePoll = 'authorization_pending' | 'slow_down' | 'access_denied' | 'approve';
+
+/**
+ * A local stand-in for Twitch's OAuth endpoints that records the forms it receives
+ */
+function createStandIn() {
+  const requests: { endpoint: string; params: Record<string, string> }[] = [];
+  const devicePolls: DevicePoll[] = [];
+  const device = { expires_in: 60, interval: 0 };
+  const error = (message: string) => Response.json({ status: 400, message }, { status: 400 });
+  const token = (accessToken: string) => Response.json({
+    access_token: accessToken,
+    refresh_token: `${accessToken}-refresh`,
+    expires_in: 14400,
+    scope: ['chat:read'],
+    token_type: 'bearer'
+  });
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      if (url.pathname === '/validate') {
+        const accessToken = req.headers.get('Authorization')?.replace('OAuth ', '');
+        return accessToken?.startsWith('access-')
+          ? Response.json({ client_id: 'client', login: 'somebot', user_id: '1234', scopes: ['chat:read'], expires_in: 14400 })
+          : Response.json({ status: 401, message: 'invalid access token' }, { status: 401 });
+      }
+
+      const params = Object.fromEntries(new URLSearchParams(await req.text()));
+      requests.push({ endpoint: url.pathname, params });
+
+      if (url.pathname === '/device') {
+        return Response.json({ device_code: 'device-1', user_code: 'ABCDEFGH', verification_uri: 'https://www.twitch.tv/activate', ...device });
+      }
+      if (url.pathname === '/token' && params.grant_type === 'authorization_code') {
+        return params.code === 'good-code' ? token('access-code') : error('Invalid authorization code');
+      }
+      if (url.pathname === '/token' && params.grant_type === 'urn:ietf:params:oauth:grant-type:device_code') {
+        const poll = devicePolls.shift() ?? 'authorization_pending';
+        return poll === 'approve' ? token('access-device') : error(poll);
+      }
+      return new Response('Not Found', { status: 404 });
+    }
+  });
+
+  return {
+    url: `http://localhost:${server.port}`,
+    requests,
+    devicePolls,
+    device,
+    polls: () => requests.filter(r => r.params.grant_type === 'urn:ietf:params:oauth:grant-type:device_code').length,
+    stop: () => server.stop(true)
+  };
+}
+
+let standIn: ReturnType<typeof createStandIn>;
+let tokenDir: string;
+let tokenManager: TokenManager;
+let flow: OAuthFlow;
+
+beforeEach(async () => {
+  standIn = createStandIn();
+  tokenDir = await fs.mkdtemp(path.join(os.tmpdir(), 'oauth-flow-'));
+  tokenManager = new TokenManager(null, tokenDir);
+  flow = new OAuthFlow(new TwitchOAuthClient('client', 'secret', standIn.url), tokenManager, REDIRECT_URI);
+});
+
+afterEach(async () => {
+  standIn.stop();
+  await fs.rm(tokenDir, { recursive: true, force: true });
+});
+
+const readSavedToken = async () => JSON.parse(await fs.readFile(path.join(tokenDir, 'tokens.1234.json'), 'utf-8'));
+
+test('completes a browser sign-in once per state and hands the token to the TokenManager', async () => {
+  const authorizeUrl = new URL(flow.beginLogin());
+  expect(`${authorizeUrl.origin}${authorizeUrl.pathname}`).toBe(`${standIn.url}/authorize`);
+  expect(authorizeUrl.searchParams.get('redirect_uri')).toBe(REDIRECT_URI);
+  const state = authorizeUrl.searchParams.get('state')!;
+
+  const userToken = await flow.completeLogin('good-code', state);
+  expect(userToken.userName).toBe('somebot');
+  expect(standIn.requests).toEqual([{
+    endpoint: '/token',
+    params: { client_id: 'client', client_secret: 'secret', code: 'good-code', grant_type: 'authorization_code', redirect_uri: REDIRECT_URI }
+  }]);
+  expect(tokenManager.getStatus()).toMatchObject({ userId: '1234', userName: 'somebot', scopes: ['chat:read'] });
+  expect(await readSavedToken()).toMatchObject({ accessToken: 'access-code', refreshToken: 'access-code-refresh' });
+
+  // The state is used up, even though the code would still be accepted
+  const replay = await flow.completeLogin('good-code', state).catch(e => e);
+  expect(replay).toBeInstanceOf(OAuthError);
+  expect(replay.code).toBe('invalid_state');
+  expect(standIn.requests.length).toBe(1);
+});
+
+test('rejects an unknown state without exchanging the code', async () => {
+  flow.beginLogin();
+  const error = await flow.completeLogin('good-code', 'forged').catch(e => e);
+  expect(error).toBeInstanceOf(OAuthError);
+  expect(error.code).toBe('invalid_state');
+  expect(standIn.requests).toEqual([]);
+  expect(tokenManager.getStatus()).toBeNull();
+});
+
+test('surfaces a code Twitch rejects', async () => {
+  const state = new URL(flow.beginLogin()).searchParams.get('state')!;
+  const error = await flow.completeLogin('bad-code', state).catch(e => e);
+  expect(error).toBeInstanceOf(OAuthError);
+  expect(error.code).toBe('Invalid authorization code');
+  expect(tokenManager.getStatus()).toBeNull();
+});
+
+test('polls a device sign-in while it is pending and stores the approved token', async () => {
+  standIn.devicePolls.push('authorization_pending', 'authorization_pending', 'approve');
+
+  const status = await flow.startDeviceFlow();
+  expect(status).toMatchObject({ state: 'pending', userCode: 'ABCDEFGH', verificationUri: 'https://www.twitch.tv/activate' });
+  // A second start returns the pending sign-in instead of starting another
+  expect(await flow.startDeviceFlow()).toBe(status);
+
+  const userToken = await flow.waitForDeviceFlow();
+  expect(userToken.userId).toBe('1234');
+  expect(standIn.polls()).toBe(3);
+  expect(flow.getDeviceFlowStatus()).toMatchObject({ state: 'complete', userName: 'somebot' });
+  expect(tokenManager.getStatus()).toMatchObject({ userId: '1234', userName: 'somebot' });
+  expect(await readSavedToken()).toMatchObject({ accessToken: 'access-device' });
+});
+
+test('backs off on slow_down and fails once the device code expires', async () => {
+  standIn.device.expires_in = 2;
+  standIn.devicePolls.push('slow_down');
+
+  await flow.startDeviceFlow();
+  const error = await flow.waitForDeviceFlow().catch(e => e);
+
+  expect(error).toBeInstanceOf(OAuthError);
+  expect(error.code).toBe('expired_token');
+  // Without backing off, a zero interval would poll continuously until the code expired
+  expect(standIn.polls()).toBe(2);
+  expect(flow.getDeviceFlowStatus()).toMatchObject({ state: 'failed', error: 'The device code expired before it was entered' });
+  expect(tokenManager.getStatus()).toBeNull();
+}, 10000);
+
+test('stops polling when the device sign-in is denied', async () => {
+  standIn.devicePolls.push('authorization_pending', 'access_denied');
+
+  await flow.startDeviceFlow();
+  const error = await flow.waitForDeviceFlow().catch(e => e);
+
+  expect(error.code).toBe('access_denied');
+  expect(standIn.polls()).toBe(2);
+  expect(flow.getDeviceFlowStatus()?.state).toBe('failed');
+  // A failed sign-in can be started again
+  standIn.devicePolls.push('approve');
+  expect((await flow.startDeviceFlow()).state).toBe('pending');
+  expect((await flow.waitForDeviceFlow()).userId).toBe('1234');
+});
@@ -0,0 +1,179 @@
+import { randomBytes } from 'crypto';
+import type { AccessToken } from '@twurple/auth';
+import type { TokenManager, TokenStatus, UserToken } from './token-manager';
+import { OAuthError, type DeviceAuthorization, type TwitchOAuthClient } from './twitch-oauth';
+
+/**
+ * How long a sign-in URL from `/auth/login` stays usable
+ */
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+
+export type DeviceFlowState = 'pending' | 'complete' | 'failed';
+
+/**
+ * Progress of a device code sign-in
+ */
+export interface DeviceFlowStatus {
+  state: DeviceFlowState;
+  userCode: string;
+  verificationUri: string;
+  expiresAt: number;
+  /** Set once signed in */
+  userName?: string;
+  /** Set if the sign-in was denied or expired */
+  error?: string;
+}
+
+interface DeviceSession {
+  authorization: DeviceAuthorization;
+  status: DeviceFlowStatus;
+  done: Promise<UserToken>;
+}
+
+/**
+ * Signs the bot in to Twitch through the authorization code or device code flow
+ * Either way the resulting token is handed to the TokenManager, which stores it and switches the bot to it.
+ */
+export class OAuthFlow {
+  /** Pending `/auth/login` states and when they expire */
+  private loginStates: Map<string, number> = new Map();
+  private device: DeviceSession | null = null;
+
+  constructor(
+    private client: TwitchOAuthClient,
+    private tokenManager: TokenManager,
+    private redirectUri: string
+  ) {}
+
+  /**
+   * Gets the status of the token in use
+   */
+  getTokenStatus(): TokenStatus | null {
+    return this.tokenManager.getStatus();
+  }
+
+  /**
+   * Starts an authorization code sign-in
+   * @returns The Twitch URL to send the user to
+   */
+  beginLogin(): string {
+    const now = Date.now();
+    for (const [state, expiresAt] of this.loginStates) {
+      if (expiresAt <= now) this.loginStates.delete(state);
+    }
+
+    const state = randomBytes(16).toString('hex');
+    this.loginStates.set(state, now + LOGIN_STATE_TTL_MS);
+    return this.client.getAuthorizeUrl(this.redirectUri, state);
+  }
+
+  /**
+   * Finishes an authorization code sign-in from the redirect's query parameters
+   * @throws {OAuthError} If the state is unknown or Twitch rejects the code
+   */
+  async completeLogin(code: string, state: string): Promise<UserToken> {
+    const expiresAt = this.loginStates.get(state);
+    this.loginStates.delete(state);
+    if (!expiresAt || expiresAt <= Date.now()) {
+      throw new OAuthError('invalid_state', 'This sign-in link has expired or was already used, start a new sign-in');
+    }
+
+    return this.store(await this.client.exchangeCode(code, this.redirectUri));
+  }
+
+  /**
+   * Starts a device code sign-in, or returns the one still pending
+   * Twitch is polled in the background until the user approves it, denies it, or the code expires.
+   * @throws {OAuthError} If Twitch refuses to start one
+   */
+  async startDeviceFlow(): Promise<DeviceFlowStatus> {
+    if (this.device?.status.state === 'pending') {
+      return this.device.status;
+    }
+
+    const authorization = await this.client.startDeviceAuthorization();
+    const status: DeviceFlowStatus = {
+      state: 'pending',
+      userCode: authorization.userCode,
+      verificationUri: authorization.verificationUri,
+      expiresAt: Date.now() + authorization.expiresIn * 1000
+    };
+    const session: DeviceSession = { authorization, status, done: this.pollDevice(authorization, status) };
+    // Failures are reported through the status; waitForDeviceFlow callers see them too
+    session.done.catch(() => {});
+    this.device = session;
+
+    console.log(`[OAuthFlow] Device code sign-in started, waiting for ${authorization.userCode} to be entered`);
+    return status;
+  }
+
+  /**
+   * Gets the latest device code sign-in's status
+   */
+  getDeviceFlowStatus(): DeviceFlowStatus | null {
+    return this.device?.status ?? null;
+  }
+
+  /**
+   * Waits for the pending device code sign-in
+   * @throws {Error} If there is none, or it was denied or expired
+   */
+  waitForDeviceFlow(): Promise<UserToken> {
+    if (!this.device) {
+      return Promise.reject(new Error('No device code sign-in was started'));
+    }
+    return this.device.done;
+  }
+
+  /**
+   * Polls Twitch at the interval it asked for until the sign-in finishes
+   */
+  private async pollDevice(authorization: DeviceAuthorization, status: DeviceFlowStatus): Promise<UserToken> {
+    let interval = authorization.interval;
+    try {
+      while (Date.now() < status.expiresAt) {
+        await new Promise(resolve => setTimeout(resolve, interval * 1000));
+
+        let token: AccessToken | null;
+        try {
+          token = await this.client.pollDeviceToken(authorization.deviceCode);
+        } catch (error) {
+          if (error instanceof OAuthError && error.code === 'slow_down') {
+            interval += 5;
+            continue;
+          }
+          throw error;
+        }
+
+        if (token) {
+          const userToken = await this.store(token);
+          status.state = 'complete';
+          status.userName = userToken.userName ?? userToken.userId;
+          return userToken;
+        }
+      }
+      throw new OAuthError('expired_token', 'The device code expired before it was entered');
+    } catch (error) {
+      status.state = 'failed';
+      status.error = error instanceof Error ? error.message : String(error);
+      console.warn(`[OAuthFlow] Device code sign-in failed: ${status.error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Looks up the token's user and hands it to the TokenManager
+   */
+  private async store(token: AccessToken): Promise<UserToken> {
+    const owner = await this.client.validate(token.accessToken);
+    const userToken: UserToken = {
+      userId: owner.userId,
+      userName: owner.userName,
+      token: { ...token, scope: owner.scopes }
+    };
+
+    await this.tokenManager.addToken(userToken);
+    console.log(`[OAuthFlow] Signed in as ${owner.userName} (scopes: ${owner.scopes.join(', ')})`);
+    return userToken;
+  }
+}
@@ -0,0 +1,44 @@
+import { expect, test } from 'bun:test';
+import { TokenCipher, TokenDecryptionError } from './token-cipher';
+
+const OLD_KEY = 'old-key-0123456789abcdef';
+const NEW_KEY = 'new-key-0123456789abcdef';
+const TOKEN = JSON.stringify({ accessToken: 'access', refreshToken: 'refresh', scope: ['chat:read'] });
+
+test('decrypts what it encrypted, with a fresh salt and IV every time', async () => {
+  const cipher = new TokenCipher(NEW_KEY);
+  const first = await cipher.encrypt(TOKEN);
+  const second = await cipher.encrypt(TOKEN);
+
+  expect(TokenCipher.isEncrypted(first)).toBe(true);
+  expect(first.data).not.toContain('refresh');
+  expect(first.salt).not.toBe(second.salt);
+  expect(first.iv).not.toBe(second.iv);
+  expect(await cipher.decrypt(first)).toBe(TOKEN);
+  expect(await cipher.decrypt(second)).toBe(TOKEN);
+});
+
+test('rejects a file encrypted with another key', async () => {
+  const encrypted = await new TokenCipher(OLD_KEY).encrypt(TOKEN);
+  const error = await new TokenCipher(NEW_KEY).decrypt(encrypted).catch(e => e);
+  expect(error).toBeInstanceOf(TokenDecryptionError);
+});
+
+test('falls back to previous keys while rotating', async () => {
+  const encrypted = await new TokenCipher(OLD_KEY).encrypt(TOKEN);
+  const rotating = new TokenCipher(NEW_KEY, [OLD_KEY]);
+
+  expect(await rotating.decrypt(encrypted)).toBe(TOKEN);
+  // Files are always written with the current key
+  expect(await new TokenCipher(NEW_KEY).decrypt(await rotating.encrypt(TOKEN))).toBe(TOKEN);
+});
+
+test('rejects a file that was tampered with', async () => {
+  const cipher = new TokenCipher(NEW_KEY);
+  const encrypted = await cipher.encrypt(TOKEN);
+  const data = Buffer.from(encrypted.data, 'base64');
+  data[0]! ^= 1;
+
+  const error = await cipher.decrypt({ ...encrypted, data: data.toString('base64') }).catch(e => e);
+  expect(error).toBeInstanceOf(TokenDecryptionError);
+});
@@ -0,0 +1,95 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { promisify } from 'util';
+
+const deriveKey = promisify(scrypt) as (secret: string, salt: Buffer, length: number) => Promise<Buffer>;
+
+/**
+ * Shortest key accepted, so a stray short value isn't mistaken for a key
+ */
+export const MIN_TOKEN_KEY_LENGTH = 16;
+
+/**
+ * A token file encrypted with AES-256-GCM, using a key derived from the secret with scrypt
+ */
+export interface EncryptedTokenFile {
+  encrypted: 'aes-256-gcm';
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Thrown when a token file can't be decrypted with any configured key
+ */
+export class TokenDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenDecryptionError';
+  }
+}
+
+/**
+ * Encrypts token files at rest
+ * Each file gets its own salt and IV. Files are encrypted with the current key and decrypted with
+ * the current or a previous one, so tokens can be re-encrypted while rotating keys.
+ */
+export class TokenCipher {
+  constructor(
+    private key: string,
+    private previousKeys: string[] = []
+  ) {}
+
+  /**
+   * Generates a random key
+   */
+  static generateKey(): string {
+    return randomBytes(32).toString('base64');
+  }
+
+  /**
+   * Checks whether parsed file contents are an encrypted token
+   */
+  static isEncrypted(data: unknown): data is EncryptedTokenFile {
+    return typeof data === 'object' && data !== null && (data as EncryptedTokenFile).encrypted === 'aes-256-gcm';
+  }
+
+  /**
+   * Encrypts a token file's contents with the current key
+   */
+  async encrypt(plaintext: string): Promise<EncryptedTokenFile> {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', await deriveKey(this.key, salt, 32), iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+    return {
+      encrypted: 'aes-256-gcm',
+      version: 1,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+  }
+
+  /**
+   * Decrypts a token file's contents, trying the current key first
+   * @throws {TokenDecryptionError} If no key fits or the file was tampered with
+   */
+  async decrypt(file: EncryptedTokenFile): Promise<string> {
+    const salt = Buffer.from(file.salt, 'base64');
+    for (const key of [this.key, ...this.previousKeys]) {
+      try {
+        const decipher = createDecipheriv('aes-256-gcm', await deriveKey(key, salt, 32), Buffer.from(file.iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+        return Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8');
+      } catch {
+        // Wrong key; try the next one
+      }
+    }
+
+    throw new TokenDecryptionError('Token file could not be decrypted: the key is wrong or the file is damaged');
+  }
+}
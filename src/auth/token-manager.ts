@@ -1,24 +1,108 @@
-import { RefreshingAuthProvider } from '@twurple/auth';
+import { getTokenInfo, InvalidTokenError, RefreshingAuthProvider, refreshUserToken } from '@twurple/auth';
 import type { AccessToken } from '@twurple/auth';
 import { promises as fs } from 'fs';
 import path from 'path';
+import { TokenCipher, TokenDecryptionError } from './token-cipher';
+
+/**
+ * Persisted token files are named after the user the token belongs to
+ */
+const TOKEN_FILE_PATTERN = /^tokens\.(\w+)\.json$/;
+
+/**
+ * A token to try at startup, with where it came from for the logs
+ */
+interface TokenCandidate {
+  token: AccessToken;
+  source: string;
+  /** The persisted file, if the token was stored */
+  file?: string;
+  /** The user the token belongs to, known from the persisted file's name */
+  userId?: string;
+}
+
+/**
+ * A token and the user it belongs to
+ */
+export interface UserToken {
+  userId: string;
+  /** Unknown if Twitch couldn't be reached to validate the token */
+  userName: string | null;
+  token: AccessToken;
+}
+
+/**
+ * The token the bot is using, for the dashboard
+ */
+export interface TokenStatus {
+  userId: string;
+  userName: string | null;
+  scopes: string[];
+  obtainedAt: number;
+  /** When the access token expires, or null if unknown; it's refreshed automatically */
+  expiresAt: number | null;
+}
+
+/**
+ * Thrown at startup when no stored or configured token is accepted by Twitch
+ */
+export class TokenRevokedError extends Error {
+  constructor(public readonly reason: string) {
+    super(`${reason}
+To recover, either:
+  - Restart the bot and sign in with the device code it shows, or
+  - Set TWITCH_ACCESS_TOKEN and TWITCH_REFRESH_TOKEN in .env to a user token with the chat:read scope and restart
+The new token is saved to data/tokens and refreshed from then on.
+Or set TWITCH_ANONYMOUS=true to read chat without a token.`);
+    this.name = 'TokenRevokedError';
+  }
+}
 
 /**
  * Manages token persistence and refreshing
+ * Token files are only readable by the owner, and encrypted when a cipher is given.
  */
 export class TokenManager {
-  private tokenDir = './data/tokens';
+  private authProvider: RefreshingAuthProvider | null = null;
+  private current: UserToken | null = null;
+
+  constructor(
+    private cipher: TokenCipher | null = null,
+    private tokenDir: string = './data/tokens'
+  ) {}
 
   /**
    * Creates a RefreshingAuthProvider with auto-persistence
+   * Starts from the newest persisted token, since Twitch rotates refresh tokens and the .env pair
+   * stops working after the first refresh. The .env token is only used when no stored token works.
+   * @param envToken - The token from .env, if set
+   * @param signIn - Gets a new token when none is usable, instead of throwing
+   * @throws {TokenRevokedError} If there is no token or Twitch rejects all of them, and signing in failed
    */
   async createAuthProvider(
     clientId: string,
     clientSecret: string,
-    initialToken: AccessToken
+    envToken: AccessToken | null,
+    signIn?: () => Promise<UserToken>
   ): Promise<RefreshingAuthProvider> {
     // Ensure token directory exists
-    await fs.mkdir(this.tokenDir, { recursive: true });
+    await fs.mkdir(this.tokenDir, { recursive: true, mode: 0o700 });
+
+    let initial: UserToken | AccessToken;
+    try {
+      initial = await this.loadStartupToken(clientId, clientSecret, envToken);
+    } catch (error) {
+      if (!(error instanceof TokenRevokedError) || !signIn) {
+        throw error;
+      }
+      console.warn(`[TokenManager] ${error.reason}`);
+      try {
+        initial = await signIn();
+      } catch (signInError) {
+        console.error('[TokenManager] Signing in failed:', signInError);
+        throw error;
+      }
+    }
 
     const authProvider = new RefreshingAuthProvider({
       clientId,
@@ -28,25 +112,275 @@ export class TokenManager {
     // Set up token refresh handler to persist new tokens
     authProvider.onRefresh(async (userId, newTokenData) => {
       await this.saveToken(userId, newTokenData);
+      if (this.current?.userId === userId) {
+        this.current = { ...this.current, token: newTokenData };
+      }
       console.log(`[TokenManager] Tokens refreshed for user ${userId}`);
     });
 
-    // Add the initial user token with chat scope
-    await authProvider.addUserForToken(initialToken, ['chat']);
+    // Add the initial user token with chat scope, looking its user up if validating it didn't
+    if ('userId' in initial) {
+      authProvider.addUser(initial.userId, initial.token, ['chat']);
+      this.current = initial;
+    } else {
+      const userId = await authProvider.addUserForToken(initial, ['chat']);
+      // A refreshed .env token can only be stored once its user is known
+      await this.saveToken(userId, initial);
+      this.current = { userId, userName: null, token: initial };
+    }
 
+    this.authProvider = authProvider;
     return authProvider;
   }
 
+  /**
+   * Stores a newly obtained token and switches the bot to it
+   * Chat picks the token up when it next connects.
+   */
+  async addToken(userToken: UserToken): Promise<void> {
+    await this.saveToken(userToken.userId, userToken.token);
+
+    if (this.current && this.current.userId !== userToken.userId) {
+      console.log(`[TokenManager] Switching from user ${this.current.userName ?? this.current.userId} to ${userToken.userName ?? userToken.userId}`);
+    }
+    this.authProvider?.addUser(userToken.userId, userToken.token, ['chat']);
+    this.current = userToken;
+  }
+
+  /**
+   * Gets the user, scopes and expiry of the token in use
+   * @returns The status, or null before a token has been loaded
+   */
+  getStatus(): TokenStatus | null {
+    if (!this.current) {
+      return null;
+    }
+
+    const { userId, userName, token } = this.current;
+    return {
+      userId,
+      userName,
+      scopes: token.scope,
+      obtainedAt: token.obtainmentTimestamp,
+      expiresAt: token.expiresIn ? token.obtainmentTimestamp + token.expiresIn * 1000 : null
+    };
+  }
+
+  /**
+   * Picks the first token Twitch accepts: persisted ones newest first, then the .env token
+   * @throws {TokenRevokedError} If there is none
+   */
+  private async loadStartupToken(
+    clientId: string,
+    clientSecret: string,
+    envToken: AccessToken | null
+  ): Promise<UserToken | AccessToken> {
+    const candidates = await this.loadPersistedTokens();
+    if (envToken) {
+      candidates.push({ token: envToken, source: '.env' });
+    }
+
+    if (candidates.length === 0) {
+      throw new TokenRevokedError(`No Twitch token found: ${this.tokenDir} is empty and TWITCH_ACCESS_TOKEN/TWITCH_REFRESH_TOKEN are not set.`);
+    }
+
+    for (const candidate of candidates) {
+      const token = await this.validateToken(clientId, clientSecret, candidate);
+      if (token) {
+        return token;
+      }
+
+      // Don't try a revoked token again on every start
+      if (candidate.file) {
+        await fs.rename(candidate.file, `${candidate.file}.revoked`).catch(error => {
+          console.error(`[TokenManager] Error setting aside ${candidate.file}:`, error);
+        });
+      }
+    }
+
+    throw new TokenRevokedError(`Twitch rejected every token (${candidates.map(c => c.source).join(', ')}): they were revoked, or the app's client secret changed.`);
+  }
+
+  /**
+   * Checks a token with Twitch, refreshing it if its access token has expired
+   * If Twitch can't be reached a stored token is used as it is and refreshed when first needed, since its
+   * user is known from the file name. The .env token still needs Twitch to look its user up.
+   * @returns The token to use, with its user if known, or null if Twitch rejected it
+   */
+  private async validateToken(
+    clientId: string,
+    clientSecret: string,
+    { token, source, userId }: TokenCandidate
+  ): Promise<UserToken | AccessToken | null> {
+    const unvalidated = (accessToken: AccessToken): UserToken | AccessToken =>
+      userId ? { userId, userName: null, token: accessToken } : accessToken;
+
+    try {
+      const info = await getTokenInfo(token.accessToken, clientId);
+      console.log(`[TokenManager] Using token from ${source} for ${info.userName} (scopes: ${info.scopes.join(', ')})`);
+      const validated: AccessToken = {
+        ...token,
+        scope: info.scopes,
+        expiresIn: info.expiryDate ? Math.floor((info.expiryDate.getTime() - Date.now()) / 1000) : null,
+        obtainmentTimestamp: Date.now()
+      };
+      return info.userId ? { userId: info.userId, userName: info.userName, token: validated } : validated;
+    } catch (error) {
+      if (!(error instanceof InvalidTokenError)) {
+        console.warn(`[TokenManager] Could not validate token from ${source}, using it as is:`, error);
+        return unvalidated(token);
+      }
+    }
+
+    if (!token.refreshToken) {
+      console.warn(`[TokenManager] Token from ${source} has expired and has no refresh token`);
+      return null;
+    }
+
+    let refreshed: AccessToken;
+    try {
+      refreshed = await refreshUserToken(clientId, clientSecret, token.refreshToken);
+    } catch (error: any) {
+      const status: number | undefined = error?.statusCode;
+      if (status === 400 || status === 401) {
+        console.warn(`[TokenManager] Token from ${source} has been revoked`);
+        return null;
+      }
+      console.warn(`[TokenManager] Could not refresh token from ${source}, using it as is:`, error);
+      return unvalidated(token);
+    }
+
+    // The old refresh token no longer works, so store the new one before anything else can fail
+    if (userId) {
+      await this.saveToken(userId, refreshed);
+    }
+
+    let info: Awaited<ReturnType<typeof getTokenInfo>>;
+    try {
+      info = await getTokenInfo(refreshed.accessToken, clientId);
+    } catch (error) {
+      console.warn(`[TokenManager] Refreshed expired token from ${source}, but could not look its user up:`, error);
+      return unvalidated(refreshed);
+    }
+
+    console.log(`[TokenManager] Refreshed expired token from ${source} for ${info.userName}`);
+    if (!info.userId) {
+      return refreshed;
+    }
+    if (info.userId !== userId) {
+      await this.saveToken(info.userId, refreshed);
+    }
+    return { userId: info.userId, userName: info.userName, token: refreshed };
+  }
+
+  /**
+   * Rewrites every persisted token with the current cipher, e.g. after rotating the key
+   * Tokens set aside as revoked are included, so none is left readable only with a retired key.
+   * @returns How many token files were rewritten
+   * @throws {TokenDecryptionError} If a token can't be decrypted with any of the cipher's keys
+   */
+  async reencryptTokens(): Promise<number> {
+    const files = await this.listTokenFiles(true);
+    for (const file of files) {
+      const { token } = await this.readTokenFile(file);
+      await this.writeTokenFile(file, token);
+    }
+    return files.length;
+  }
+
+  /**
+   * Loads the persisted tokens, newest first
+   * Plain JSON tokens are encrypted on the way when a cipher is set.
+   * @throws {TokenDecryptionError} If a token can't be decrypted, rather than skipping it and signing in again
+   */
+  private async loadPersistedTokens(): Promise<TokenCandidate[]> {
+    const candidates: TokenCandidate[] = [];
+    for (const filePath of await this.listTokenFiles()) {
+      try {
+        const { token, encrypted } = await this.readTokenFile(filePath);
+        if (typeof token.accessToken !== 'string') {
+          continue;
+        }
+        candidates.push({ token, source: filePath, file: filePath, userId: TOKEN_FILE_PATTERN.exec(path.basename(filePath))![1] });
+
+        if (this.cipher && !encrypted) {
+          await this.writeTokenFile(filePath, token);
+          console.log(`[TokenManager] Encrypted ${filePath}`);
+        } else {
+          // Files written before permissions were restricted
+          await fs.chmod(filePath, 0o600);
+        }
+      } catch (error) {
+        if (error instanceof TokenDecryptionError) {
+          throw new TokenDecryptionError(`${error.message}. Check TOKEN_ENCRYPTION_KEY or TOKEN_ENCRYPTION_KEY_FILE`);
+        }
+        console.error(`[TokenManager] Error reading ${filePath}, skipping it:`, error);
+      }
+    }
+
+    return candidates.sort((a, b) => (b.token.obtainmentTimestamp ?? 0) - (a.token.obtainmentTimestamp ?? 0));
+  }
+
+  /**
+   * Lists the persisted token files
+   * @param includeRevoked - Also list the `*.revoked` files set aside at startup
+   */
+  private async listTokenFiles(includeRevoked = false): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.tokenDir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    return files
+      .filter(file => TOKEN_FILE_PATTERN.test(includeRevoked ? file.replace(/\.revoked$/, '') : file))
+      .map(file => path.join(this.tokenDir, file));
+  }
+
+  /**
+   * Reads a token file, decrypting it if needed
+   * @throws {TokenDecryptionError} If it's encrypted and there is no key, or the key doesn't fit
+   */
+  private async readTokenFile(filePath: string): Promise<{ token: AccessToken; encrypted: boolean }> {
+    const data = JSON.parse(await fs.readFile(filePath, 'utf-8')) as unknown;
+    if (!TokenCipher.isEncrypted(data)) {
+      return { token: data as AccessToken, encrypted: false };
+    }
+    if (!this.cipher) {
+      throw new TokenDecryptionError(`${filePath} is encrypted but no key is set`);
+    }
+
+    try {
+      return { token: JSON.parse(await this.cipher.decrypt(data)) as AccessToken, encrypted: true };
+    } catch (error) {
+      if (error instanceof TokenDecryptionError) {
+        throw new TokenDecryptionError(`${filePath}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes a token file through a temp file, readable by the owner only
+   */
+  private async writeTokenFile(filePath: string, tokenData: AccessToken): Promise<void> {
+    const json = JSON.stringify(tokenData, null, 2);
+    const contents = this.cipher ? JSON.stringify(await this.cipher.encrypt(json), null, 2) : json;
+
+    await fs.mkdir(this.tokenDir, { recursive: true, mode: 0o700 });
+    const tempFile = `${filePath}.tmp`;
+    await fs.writeFile(tempFile, contents, { encoding: 'utf-8', mode: 0o600 });
+    // The mode only applies when the file is created
+    await fs.chmod(tempFile, 0o600);
+    await fs.rename(tempFile, filePath);
+  }
+
   /**
    * Saves token data to disk
    */
   private async saveToken(userId: string, tokenData: AccessToken): Promise<void> {
-    const filePath = path.join(this.tokenDir, `tokens.${userId}.json`);
-    await fs.writeFile(
-      filePath,
-      JSON.stringify(tokenData, null, 2),
-      'utf-8'
-    );
+    await this.writeTokenFile(path.join(this.tokenDir, `tokens.${userId}.json`), tokenData);
   }
 
   /**
@@ -0,0 +1,187 @@
+import type { AccessToken } from '@twurple/auth';
+
+export const DEFAULT_TWITCH_AUTH_URL = 'https://id.twitch.tv/oauth2';
+
+/**
+ * Scopes requested when signing in; the bot only reads chat
+ */
+export const BOT_SCOPES = ['chat:read'];
+
+/**
+ * A device code sign-in started with Twitch
+ */
+export interface DeviceAuthorization {
+  deviceCode: string;
+  /** The code the user enters at the verification URI */
+  userCode: string;
+  verificationUri: string;
+  expiresIn: number;
+  /** Seconds to wait between polls */
+  interval: number;
+}
+
+/**
+ * The user and scopes an access token belongs to
+ */
+export interface TokenOwner {
+  userId: string;
+  userName: string;
+  scopes: string[];
+}
+
+/**
+ * Thrown when Twitch rejects an OAuth request
+ */
+export class OAuthError extends Error {
+  constructor(
+    /** Twitch's error code or message, e.g. `authorization_pending` */
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string[];
+}
+
+/**
+ * Talks to Twitch's OAuth endpoints for the authorization code and device code flows
+ * The base URL can point at a local stand-in, which twurple's own helpers don't allow.
+ */
+export class TwitchOAuthClient {
+  constructor(
+    private clientId: string,
+    private clientSecret: string,
+    private authUrl: string = DEFAULT_TWITCH_AUTH_URL
+  ) {}
+
+  /**
+   * Builds the URL that sends the user to Twitch to approve the bot
+   * @param redirectUri - Where Twitch sends the user back to; must be registered for the app
+   * @param state - Opaque value echoed back to the redirect URI
+   */
+  getAuthorizeUrl(redirectUri: string, state: string): string {
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.clientId,
+      redirect_uri: redirectUri,
+      scope: BOT_SCOPES.join(' '),
+      state,
+      force_verify: 'true'
+    });
+    return `${this.authUrl}/authorize?${params}`;
+  }
+
+  /**
+   * Exchanges an authorization code for a token
+   * @throws {OAuthError} If Twitch rejects the code
+   */
+  async exchangeCode(code: string, redirectUri: string): Promise<AccessToken> {
+    return this.toAccessToken(await this.post('/token', {
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      code,
+      grant_type: 'authorization_code',
+      redirect_uri: redirectUri
+    }) as TokenResponse);
+  }
+
+  /**
+   * Starts a device code sign-in
+   * @throws {OAuthError} If Twitch refuses, e.g. because the app doesn't allow device codes
+   */
+  async startDeviceAuthorization(): Promise<DeviceAuthorization> {
+    const data = await this.post('/device', {
+      client_id: this.clientId,
+      scopes: BOT_SCOPES.join(' ')
+    }) as { device_code: string; user_code: string; verification_uri: string; expires_in: number; interval: number };
+
+    return {
+      deviceCode: data.device_code,
+      userCode: data.user_code,
+      verificationUri: data.verification_uri,
+      expiresIn: data.expires_in,
+      interval: data.interval
+    };
+  }
+
+  /**
+   * Checks whether the user has approved a device code sign-in
+   * @returns The token, or null while the user hasn't approved it yet
+   * @throws {OAuthError} If the sign-in was denied or expired, or on `slow_down`
+   */
+  async pollDeviceToken(deviceCode: string): Promise<AccessToken | null> {
+    try {
+      return this.toAccessToken(await this.post('/token', {
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        device_code: deviceCode,
+        scopes: BOT_SCOPES.join(' '),
+        grant_type: 'urn:ietf:params:oauth:grant-type:device_code'
+      }) as TokenResponse);
+    } catch (error) {
+      if (error instanceof OAuthError && error.code === 'authorization_pending') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Looks up who an access token belongs to
+   * @throws {OAuthError} If Twitch rejects the token
+   */
+  async validate(accessToken: string): Promise<TokenOwner> {
+    const response = await fetch(`${this.authUrl}/validate`, {
+      headers: { Authorization: `OAuth ${accessToken}` }
+    });
+    const data = await this.readJson(response) as { user_id?: string; login?: string; scopes?: string[] };
+    if (!data.user_id || !data.login) {
+      throw new OAuthError('invalid_token', 'Token does not belong to a user');
+    }
+
+    return { userId: data.user_id, userName: data.login, scopes: data.scopes ?? [] };
+  }
+
+  /**
+   * Posts a form to an OAuth endpoint
+   */
+  private async post(endpoint: string, params: Record<string, string>): Promise<unknown> {
+    const response = await fetch(`${this.authUrl}${endpoint}`, {
+      method: 'POST',
+      body: new URLSearchParams(params)
+    });
+    return this.readJson(response);
+  }
+
+  /**
+   * Parses a JSON response, turning Twitch's `{ status, message }` errors into an OAuthError
+   */
+  private async readJson(response: Response): Promise<unknown> {
+    const data = await response.json().catch(() => null) as { message?: string; error?: string } | null;
+    if (!response.ok) {
+      const code = data?.message ?? data?.error ?? `HTTP ${response.status}`;
+      throw new OAuthError(code, `Twitch returned ${response.status}: ${code}`);
+    }
+    if (!data) {
+      throw new OAuthError('invalid_response', 'Twitch returned an empty or invalid response');
+    }
+    return data;
+  }
+
+  private toAccessToken(data: TokenResponse): AccessToken {
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token ?? null,
+      scope: data.scope ?? [],
+      expiresIn: data.expires_in ?? null,
+      obtainmentTimestamp: Date.now()
+    };
+  }
+}
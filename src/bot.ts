@@ -1,52 +1,168 @@
 import { ApiClient } from '@twurple/api';
-import type { RefreshingAuthProvider } from '@twurple/auth';
+import type { AuthProvider } from '@twurple/auth';
+import { ChatClient } from '@twurple/chat';
 import { Bot } from '@twurple/easy-bot';
-import { MessageHandler } from './handlers/message-handler';
+import {
+  ChannelSettingsManager,
+  DEFAULT_CHANNEL_SETTINGS,
+  type ChannelSettingsConfig
+} from './config/channel-settings';
+import { MessageHandler, toIncomingChatMessage } from './handlers/message-handler';
+import { createEmoteProviders, type EmoteProviderName } from './providers/emote-provider';
+import type { SevenTVEndpoints } from './providers/seventv-provider';
+import type { ChannelStore } from './services/channel-store';
+import { EmoteCacheStore } from './services/emote-cache-store';
+import { EmoteChangeLog } from './services/emote-change-log';
 import { EmoteService } from './services/emote-service';
-import { StatisticsService } from './services/statistics-service';
+import { SevenTVEventClient, type SevenTVEventOptions } from './services/seventv-events';
+import { StatisticsService, type StatisticsOptions } from './services/statistics-service';
+import { UpstreamGuard, type UpstreamOptions } from './services/upstream-guard';
 import { UserService } from './services/user-service';
+import type { StatsStorage } from './storage/stats-storage';
+
+/**
+ * Optional bot settings
+ */
+export interface BotOptions {
+  /** Storage backend for statistics (defaults to stats.json) */
+  statsStorage?: StatsStorage;
+  /** Statistics tracking options */
+  statistics?: StatisticsOptions;
+  /** Default and per-channel settings */
+  channelSettings?: ChannelSettingsConfig;
+  /** Live emote set updates through the 7TV EventAPI (emote sets are only polled without it) */
+  sevenTVEvents?: SevenTVEventOptions;
+  /** Emote providers in order of precedence (defaults to 7TV, BTTV, FFZ) */
+  emoteProviders?: EmoteProviderName[];
+  /** 7TV API and CDN locations (defaults to the public 7TV endpoints) */
+  sevenTV?: SevenTVEndpoints;
+  /** Retries and circuit breaker for 7TV, BTTV, FFZ and Twitch API requests */
+  upstream?: UpstreamOptions;
+  /** Saves the channel list when channels are joined or left at runtime */
+  channelStore?: ChannelStore;
+  /** Authorizes Twitch API lookups in anonymous mode, e.g. with an app token */
+  apiAuthProvider?: AuthProvider;
+  /** Channel IDs by channel name, which don't need to be looked up */
+  channelIds?: Record<string, string>;
+}
+
+/**
+ * Why a channel couldn't be joined or left
+ */
+export type ChannelChangeFailure = 'invalid' | 'not-found' | 'already-tracked' | 'not-tracked';
+
+/**
+ * A channel join or part that went through
+ */
+export interface ChannelChange {
+  /** The normalized channel name */
+  channel: string;
+  /** Set if the channel list couldn't be saved, so the change only lasts until a restart */
+  saveError?: string;
+}
+
+/**
+ * Thrown when a channel can't be joined or left
+ */
+export class ChannelChangeError extends Error {
+  constructor(
+    public readonly reason: ChannelChangeFailure,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ChannelChangeError';
+  }
+}
 
 /**
  * Main bot class that sets up and manages the Twitch bot
+ * Without an auth provider it reads chat anonymously, as a `justinfan` guest.
  */
 export class TwitchChatBot {
-  private bot: Bot;
-  private apiClient: ApiClient;
+  private bot: Bot | null = null;
+  private chat: ChatClient;
+  private apiClient: ApiClient | null;
+  private upstream: UpstreamGuard;
   private userService: UserService;
   private emoteService: EmoteService;
+  private emoteChangeLog: EmoteChangeLog;
+  private sevenTVEvents: SevenTVEventClient | null = null;
   private statisticsService: StatisticsService;
   private messageHandler: MessageHandler;
+  private channelSettings: ChannelSettingsManager;
+  private channels: Set<string>;
+  private channelStore: ChannelStore | null;
 
   constructor(
-    authProvider: RefreshingAuthProvider,
-    channels: string[]
+    authProvider: AuthProvider | null,
+    channels: string[],
+    options: BotOptions = {}
   ) {
-    // Create API client for user lookups
-    this.apiClient = new ApiClient({ authProvider });
+    this.channels = new Set(channels.map(channel => channel.toLowerCase()));
+    this.channelStore = options.channelStore ?? null;
+
+    // Create API client for user lookups, if there is anything to authorize them with
+    const apiAuthProvider = authProvider ?? options.apiAuthProvider ?? null;
+    this.apiClient = apiAuthProvider ? new ApiClient({ authProvider: apiAuthProvider }) : null;
 
     // Initialize services
-    this.userService = new UserService(this.apiClient);
-    this.emoteService = new EmoteService(this.userService);
-    this.statisticsService = new StatisticsService();
+    this.upstream = new UpstreamGuard(options.upstream);
+    this.userService = new UserService(this.apiClient, this.upstream, options.channelIds);
+    this.emoteChangeLog = new EmoteChangeLog();
+    this.emoteService = new EmoteService(
+      this.userService,
+      this.emoteChangeLog,
+      createEmoteProviders(options.emoteProviders, url => this.upstream.fetch(url), options.sevenTV),
+      new EmoteCacheStore()
+    );
+    this.statisticsService = new StatisticsService(options.statsStorage, options.statistics);
+    // Keep emote stats in sync with renamed aliases
+    this.emoteService.onEmotesLoaded((channel, emotes) => {
+      this.statisticsService.reconcileEmotes(channel, emotes);
+    });
+    if (options.sevenTVEvents?.enabled && this.emoteService.getProviderNames().includes('7tv')) {
+      this.sevenTVEvents = new SevenTVEventClient(this.emoteService, options.sevenTVEvents.url);
+    }
+    this.channelSettings = new ChannelSettingsManager(
+      options.channelSettings ?? { defaults: DEFAULT_CHANNEL_SETTINGS, channels: {} }
+    );
     this.messageHandler = new MessageHandler(
       this.userService,
       this.emoteService,
-      this.statisticsService
+      this.statisticsService,
+      this.channelSettings
     );
 
-    // Create the bot instance
-    this.bot = new Bot({
-      authProvider,
-      channels,
-      commands: [] // No commands needed for read-only bot
-    });
+    // Create the chat connection; reconnects join the channels tracked at that point
+    const trackedChannels = () => Array.from(this.channels);
+    if (authProvider) {
+      this.bot = new Bot({
+        authProvider,
+        channels: trackedChannels,
+        commands: [] // No commands needed for read-only bot
+      });
+      this.chat = this.bot.chat;
+    } else {
+      // Without an auth provider Twurple connects as a justinfan guest, which can only read
+      this.chat = new ChatClient({ channels: trackedChannels });
+    }
 
     this.setupEventHandlers();
+    if (!this.bot) {
+      this.chat.connect();
+    }
 
-    // Pre-load emotes for all channels
-    this.emoteService.preloadChannelEmotes(channels).catch(err => {
-      console.error('[Bot] Error pre-loading emotes:', err);
-    });
+    // Load the change log baseline and the emotes saved by the last run, then pre-load emotes for all channels
+    Promise.all([
+      this.emoteChangeLog.load(),
+      this.emoteService.loadCachedEmotes()
+        .catch(err => console.error('[Bot] Error loading cached emotes:', err))
+    ])
+      .then(() => this.emoteService.preloadChannelEmotes(channels))
+      .catch(err => {
+        console.error('[Bot] Error pre-loading emotes:', err);
+      })
+      .then(() => this.sevenTVEvents?.start());
   }
 
   /**
@@ -54,17 +170,19 @@ export class TwitchChatBot {
    */
   private setupEventHandlers(): void {
     // Handle incoming messages
-    this.bot.onMessage(async (message) => {
-      await this.messageHandler.handleMessage(message);
+    this.chat.onMessage(async (channel, _user, text, msg) => {
+      // Messages can still arrive from a channel that was just left
+      if (!this.channels.has(channel.toLowerCase())) return;
+      await this.messageHandler.handleMessage(toIncomingChatMessage(channel, text, msg));
     });
 
     // Handle bot connection
-    this.bot.onConnect(() => {
-      console.log('[Bot] Connected to Twitch chat');
+    this.chat.onConnect(() => {
+      console.log(`[Bot] Connected to Twitch chat${this.bot ? '' : ' anonymously'}`);
     });
 
     // Handle bot disconnection
-    this.bot.onDisconnect((manually, reason) => {
+    this.chat.onDisconnect((manually, reason) => {
       if (manually) {
         console.log('[Bot] Manually disconnected');
       } else {
@@ -86,6 +204,105 @@ export class TwitchChatBot {
     });*/
   }
 
+  /**
+   * Gets the channels being tracked
+   */
+  getChannels(): string[] {
+    return Array.from(this.channels);
+  }
+
+  /**
+   * Starts tracking a channel: joins its chat, pre-loads its emotes and saves the channel list
+   * @param channelName - The channel's login name
+   * @returns The normalized channel name, and why the channel list wasn't saved if it couldn't be
+   * @throws {ChannelChangeError} If the name is invalid, the channel doesn't exist or is already tracked
+   * @throws If Twitch can't be reached to look the channel up
+   */
+  async joinChannel(channelName: string): Promise<ChannelChange> {
+    const channel = channelName.trim().toLowerCase();
+    if (!/^[a-z0-9_]{1,25}$/.test(channel)) {
+      throw new ChannelChangeError('invalid', `"${channelName}" is not a valid channel name`);
+    }
+    if (this.channels.has(channel)) {
+      throw new ChannelChangeError('already-tracked', `${channel} is already tracked`);
+    }
+
+    // Catch typos before joining a chat nobody is in
+    const userId = await this.userService.resolveUserId(channel);
+    if (!userId) {
+      throw new ChannelChangeError('not-found', `Twitch channel ${channel} does not exist`);
+    }
+    if (this.channels.has(channel)) {
+      throw new ChannelChangeError('already-tracked', `${channel} is already tracked`);
+    }
+
+    this.channels.add(channel);
+    const saveError = await this.saveChannels();
+    console.log(`[Bot] Tracking ${channel}`);
+
+    this.emoteService.preloadChannelEmotes([channel]).catch(err => {
+      console.error(`[Bot] Error pre-loading emotes for ${channel}:`, err);
+    });
+
+    try {
+      await this.chat.join(channel);
+    } catch (err) {
+      // The channel stays tracked and is joined again on the next reconnect
+      console.error(`[Bot] Error joining ${channel}:`, err);
+    }
+
+    return { channel, saveError };
+  }
+
+  /**
+   * Stops tracking a channel: leaves its chat, drops its emotes and saves the channel list
+   * Its statistics are kept.
+   * @param channelName - The channel's login name
+   * @returns The normalized channel name, and why the channel list wasn't saved if it couldn't be
+   * @throws {ChannelChangeError} If the channel isn't tracked
+   */
+  async partChannel(channelName: string): Promise<ChannelChange> {
+    const channel = channelName.trim().toLowerCase();
+    if (!this.channels.delete(channel)) {
+      throw new ChannelChangeError('not-tracked', `${channel} is not tracked`);
+    }
+
+    this.chat.part(channel);
+    const saveError = await this.saveChannels();
+    console.log(`[Bot] Stopped tracking ${channel}`);
+
+    await this.emoteService.removeChannel(channel);
+    return { channel, saveError };
+  }
+
+  /**
+   * Saves the tracked channels after a join or part
+   * @returns Why the list couldn't be saved, if it couldn't
+   */
+  private async saveChannels(): Promise<string | undefined> {
+    try {
+      await this.channelStore?.save(this.getChannels());
+      return undefined;
+    } catch (error) {
+      console.error('[Bot] Error saving channel list:', error);
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Loads persisted statistics and reconciles them with emote sets fetched in the meantime
+   */
+  async loadStats(): Promise<void> {
+    await this.statisticsService.loadStats();
+
+    for (const stats of this.statisticsService.getAllStats()) {
+      const emotes = this.emoteService.getAllEmoteMetadata(stats.channelName);
+      if (emotes) {
+        this.statisticsService.reconcileEmotes(stats.channelName, emotes);
+      }
+    }
+  }
+
   /**
    * Gets the UserService instance for external use
    */
@@ -108,9 +325,30 @@ export class TwitchChatBot {
   }
 
   /**
-   * Gets the Bot instance for external use
+   * Gets the 7TV EventAPI client, or null if live updates are disabled
+   */
+  getSevenTVEvents(): SevenTVEventClient | null {
+    return this.sevenTVEvents;
+  }
+
+  /**
+   * Gets the retry and circuit breaker wrapper for upstream API requests
+   */
+  getUpstreamGuard(): UpstreamGuard {
+    return this.upstream;
+  }
+
+  /**
+   * Gets the ChannelSettingsManager instance for external use
+   */
+  getChannelSettings(): ChannelSettingsManager {
+    return this.channelSettings;
+  }
+
+  /**
+   * Gets the Bot instance for external use, or null in anonymous mode
    */
-  getBot(): Bot {
+  getBot(): Bot | null {
     return this.bot;
   }
 }
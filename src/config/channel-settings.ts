@@ -0,0 +1,196 @@
+import { readFileSync } from 'fs';
+
+/**
+ * How repeated emotes in a single message are counted
+ * - unique: once per message
+ * - all: every occurrence
+ * - capped: every occurrence up to countingCap per message
+ */
+export type CountingMode = 'unique' | 'all' | 'capped';
+
+/**
+ * Per-channel settings
+ * Defaults come from environment variables and can be overridden per channel
+ * in an optional JSON file (CHANNEL_SETTINGS_FILE, default ./channel-settings.json)
+ */
+export interface ChannelSettings {
+  countingMode: CountingMode;
+  /** Maximum occurrences counted per message in capped mode */
+  countingCap: number;
+  /** Also store messages-containing and total-instance counts next to the counted uses */
+  storeBothCounts: boolean;
+  /** Suppress spammed emote uses (cooldowns and repeated messages) */
+  spamFilter: boolean;
+  /** Seconds after a counted use before the same chatter's next use of that emote counts again (0 disables) */
+  emoteCooldownSeconds: number;
+  /** Seconds in which repeating the previous message verbatim is treated as spam (0 disables) */
+  repeatWindowSeconds: number;
+  /** Keep a separate count of suppressed uses so raw and de-spammed counts can be compared */
+  countSuppressed: boolean;
+  /** Logins or user IDs whose messages are ignored (a channel's list adds to the global one) */
+  ignoredUsers: string[];
+  /** Ignore well-known bots such as Nightbot and StreamElements */
+  ignoreKnownBots: boolean;
+  /** Ignore messages from the broadcaster */
+  ignoreBroadcaster: boolean;
+  /** Count uses of global emotes (kept apart from the channel's own emotes) */
+  trackGlobalEmotes: boolean;
+  /** List global emotes in the dashboard tables */
+  showGlobalEmotes: boolean;
+  /** Count uses of native Twitch emotes (subscriber, follower and Twitch global emotes) */
+  trackTwitchEmotes: boolean;
+}
+
+/**
+ * Default settings plus per-channel overrides
+ */
+export interface ChannelSettingsConfig {
+  defaults: ChannelSettings;
+  /** Overrides keyed by lowercase channel name */
+  channels: Record<string, Partial<ChannelSettings>>;
+}
+
+const COUNTING_MODES: CountingMode[] = ['unique', 'all', 'capped'];
+
+/**
+ * Settings used when nothing is configured
+ */
+export const DEFAULT_CHANNEL_SETTINGS: ChannelSettings = {
+  countingMode: 'unique',
+  countingCap: 3,
+  storeBothCounts: false,
+  spamFilter: false,
+  emoteCooldownSeconds: 30,
+  repeatWindowSeconds: 60,
+  countSuppressed: true,
+  ignoredUsers: [],
+  ignoreKnownBots: true,
+  ignoreBroadcaster: false,
+  trackGlobalEmotes: true,
+  showGlobalEmotes: true,
+  trackTwitchEmotes: true
+};
+
+/**
+ * Resolves the effective settings for each channel
+ */
+export class ChannelSettingsManager {
+  private resolved: Map<string, ChannelSettings> = new Map();
+
+  constructor(private config: ChannelSettingsConfig) {}
+
+  /**
+   * Gets the settings for a channel, with overrides applied over the defaults
+   */
+  forChannel(channelName: string): ChannelSettings {
+    const channel = channelName.toLowerCase();
+    const overrides = this.config.channels[channel];
+    if (!overrides) {
+      return this.config.defaults;
+    }
+
+    let settings = this.resolved.get(channel);
+    if (!settings) {
+      settings = {
+        ...this.config.defaults,
+        ...overrides,
+        ignoredUsers: [...this.config.defaults.ignoredUsers, ...(overrides.ignoredUsers ?? [])]
+      };
+      this.resolved.set(channel, settings);
+    }
+
+    return settings;
+  }
+}
+
+/**
+ * Loads per-channel overrides from the optional settings file
+ * @param defaults - Settings used where a channel has no override
+ * @param file - Path to the JSON overrides file
+ * @throws {Error} If the file or one of its settings is invalid
+ */
+export function loadChannelSettings(defaults: ChannelSettings, file: string): ChannelSettingsConfig {
+  validateSettings('environment', defaults);
+  defaults = { ...defaults, ignoredUsers: normalizeUsers(defaults.ignoredUsers) };
+
+  let contents: string;
+  try {
+    contents = readFileSync(file, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return { defaults, channels: {} };
+    }
+    throw error;
+  }
+
+  let parsed: { channels?: Record<string, Partial<ChannelSettings>> };
+  try {
+    parsed = JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`${file} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const channels: Record<string, Partial<ChannelSettings>> = {};
+  for (const [channel, overrides] of Object.entries(parsed.channels ?? {})) {
+    const settings = validateSettings(`${file} (${channel})`, overrides);
+    if (settings.ignoredUsers) {
+      settings.ignoredUsers = normalizeUsers(settings.ignoredUsers);
+    }
+    channels[channel.toLowerCase()] = settings;
+  }
+
+  return { defaults, channels };
+}
+
+/**
+ * Validates the settings that are present
+ * @param source - Where the settings came from, for error messages
+ * @throws {Error} If a setting has an invalid value
+ */
+function validateSettings(source: string, settings: Partial<ChannelSettings>): Partial<ChannelSettings> {
+  if (settings.countingMode !== undefined && !COUNTING_MODES.includes(settings.countingMode)) {
+    throw new Error(`${source}: countingMode must be one of ${COUNTING_MODES.join(', ')}`);
+  }
+
+  if (settings.countingCap !== undefined && (!Number.isInteger(settings.countingCap) || settings.countingCap < 1)) {
+    throw new Error(`${source}: countingCap must be a positive integer`);
+  }
+
+  for (const key of [
+    'storeBothCounts',
+    'spamFilter',
+    'countSuppressed',
+    'ignoreKnownBots',
+    'ignoreBroadcaster',
+    'trackGlobalEmotes',
+    'showGlobalEmotes',
+    'trackTwitchEmotes'
+  ] as const) {
+    if (settings[key] !== undefined && typeof settings[key] !== 'boolean') {
+      throw new Error(`${source}: ${key} must be true or false`);
+    }
+  }
+
+  for (const key of ['emoteCooldownSeconds', 'repeatWindowSeconds'] as const) {
+    const value = settings[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      throw new Error(`${source}: ${key} must be a non-negative number`);
+    }
+  }
+
+  if (
+    settings.ignoredUsers !== undefined &&
+    (!Array.isArray(settings.ignoredUsers) || settings.ignoredUsers.some(user => typeof user !== 'string'))
+  ) {
+    throw new Error(`${source}: ignoredUsers must be a list of logins or user IDs`);
+  }
+
+  return settings;
+}
+
+/**
+ * Lowercases logins and drops empty entries so they can be compared directly
+ */
+function normalizeUsers(users: string[]): string[] {
+  return users.map(user => user.trim().toLowerCase()).filter(user => user.length > 0);
+}
@@ -3,12 +3,73 @@
  * Validates and loads all required environment variables
  */
 
+import { readFileSync } from 'fs';
+import { MIN_TOKEN_KEY_LENGTH } from '../auth/token-cipher';
+import { DEFAULT_TWITCH_AUTH_URL } from '../auth/twitch-oauth';
+import {
+  DEFAULT_CHANNEL_SETTINGS,
+  loadChannelSettings,
+  type ChannelSettingsConfig,
+  type CountingMode
+} from './channel-settings';
+import { EMOTE_IMAGE_SIZES, EMOTE_PROVIDERS, type EmoteProviderName } from '../providers/emote-provider';
+import { DEFAULT_SEVENTV_ENDPOINTS, SEVENTV_IMAGE_FORMATS, type SevenTVEndpoints } from '../providers/seventv-provider';
+import { DEFAULT_EVENTS_URL, type SevenTVEventOptions } from '../services/seventv-events';
+import { DEFAULT_STALE_CRITERIA, type StaleEmoteCriteria } from '../services/stale-emote-service';
+import { DEFAULT_UPSTREAM_OPTIONS, type UpstreamOptions } from '../services/upstream-guard';
+import type { JsonBackupOptions } from '../storage/json-stats-storage';
+import type { StatsStorageBackend } from '../storage/stats-storage';
+
+/**
+ * How the bot signs in to Twitch
+ * - Authenticated: chats as the token's user, whose token also authorizes Twitch API lookups
+ * - Anonymous: reads chat as a `justinfan` guest; API lookups use an app token if client credentials are set
+ */
+export type TwitchAuthConfig =
+  | {
+    anonymous: false;
+    clientId: string;
+    clientSecret: string;
+    /** Only used until a refreshed token has been saved to data/tokens */
+    accessToken: string | null;
+    refreshToken: string | null;
+    /** Twitch's OAuth base URL, e.g. a local stand-in */
+    authUrl: string;
+    /** Where Twitch sends the dashboard's `/auth/login` sign-in back to; must be registered for the app */
+    redirectUri: string;
+  }
+  | {
+    anonymous: true;
+    clientId: string | null;
+    clientSecret: string | null;
+  };
+
+/**
+ * Key for encrypting stored tokens, from TOKEN_ENCRYPTION_KEY or the file TOKEN_ENCRYPTION_KEY_FILE
+ */
+export interface TokenEncryptionConfig {
+  /** Null to store tokens as plain JSON */
+  key: string | null;
+  keyFile: string | null;
+}
+
 export interface EnvConfig {
-  clientId: string;
-  clientSecret: string;
-  accessToken: string;
-  refreshToken: string;
+  auth: TwitchAuthConfig;
+  tokenEncryption: TokenEncryptionConfig;
   channels: string[];
+  /** Channel IDs by channel name, looked up through the Twitch API when missing */
+  channelIds: Record<string, string>;
+  statsStorage: StatsStorageBackend;
+  statsBackups: JsonBackupOptions;
+  trackChatters: boolean;
+  channelSettings: ChannelSettingsConfig;
+  staleEmotes: StaleEmoteCriteria;
+  sevenTVEvents: SevenTVEventOptions;
+  emoteProviders: EmoteProviderName[];
+  sevenTV: SevenTVEndpoints;
+  upstream: UpstreamOptions;
+  /** Bearer token for the dashboard's write endpoints, which are disabled without one */
+  dashboardApiToken: string | null;
 }
 
 /**
@@ -16,13 +77,10 @@ export interface EnvConfig {
  * @throws {Error} If any required environment variable is missing
  */
 export function loadEnv(): EnvConfig {
-  const required = [
-    'TWITCH_CLIENT_ID',
-    'TWITCH_CLIENT_SECRET',
-    'TWITCH_ACCESS_TOKEN',
-    'TWITCH_REFRESH_TOKEN',
-    'TWITCH_CHANNELS'
-  ];
+  const anonymous = parseBoolean('TWITCH_ANONYMOUS', false);
+  const required = anonymous
+    ? ['TWITCH_CHANNELS']
+    : ['TWITCH_CLIENT_ID', 'TWITCH_CLIENT_SECRET', 'TWITCH_CHANNELS'];
 
   const missing = required.filter(key => !process.env[key]);
 
@@ -39,11 +97,253 @@ export function loadEnv(): EnvConfig {
     throw new Error('TWITCH_CHANNELS must contain at least one channel name');
   }
 
+  const statsStorage = (process.env.STATS_STORAGE?.trim().toLowerCase() || 'json') as StatsStorageBackend;
+  if (statsStorage !== 'json' && statsStorage !== 'sqlite') {
+    throw new Error('STATS_STORAGE must be either "json" or "sqlite"');
+  }
+
+  const backupCount = parseNonNegativeInt('STATS_BACKUP_COUNT', 10);
+  const backupIntervalMinutes = parseNonNegativeInt('STATS_BACKUP_INTERVAL_MINUTES', 60);
+
+  const clientId = process.env.TWITCH_CLIENT_ID?.trim() || null;
+  const clientSecret = process.env.TWITCH_CLIENT_SECRET?.trim() || null;
+  if (anonymous && Boolean(clientId) !== Boolean(clientSecret)) {
+    throw new Error('TWITCH_CLIENT_ID and TWITCH_CLIENT_SECRET must be set together');
+  }
+
+  const accessToken = process.env.TWITCH_ACCESS_TOKEN?.trim() || null;
+  const refreshToken = process.env.TWITCH_REFRESH_TOKEN?.trim() || null;
+  if (!anonymous && Boolean(accessToken) !== Boolean(refreshToken)) {
+    throw new Error('TWITCH_ACCESS_TOKEN and TWITCH_REFRESH_TOKEN must be set together');
+  }
+
   return {
-    clientId: process.env.TWITCH_CLIENT_ID!,
-    clientSecret: process.env.TWITCH_CLIENT_SECRET!,
-    accessToken: process.env.TWITCH_ACCESS_TOKEN!,
-    refreshToken: process.env.TWITCH_REFRESH_TOKEN!,
-    channels
+    auth: anonymous
+      ? { anonymous, clientId, clientSecret }
+      : {
+        anonymous,
+        clientId: clientId!,
+        clientSecret: clientSecret!,
+        accessToken,
+        refreshToken,
+        authUrl: parseUrl('TWITCH_AUTH_URL', DEFAULT_TWITCH_AUTH_URL),
+        redirectUri: parseUrl('TWITCH_REDIRECT_URI', 'http://localhost:3000/auth/callback')
+      },
+    tokenEncryption: loadTokenEncryption(),
+    channels,
+    channelIds: parseChannelIds('TWITCH_CHANNEL_IDS'),
+    statsStorage,
+    statsBackups: {
+      count: backupCount,
+      intervalMs: backupIntervalMinutes * 60 * 1000
+    },
+    trackChatters: parseBoolean('TRACK_CHATTERS', false),
+    channelSettings: loadChannelSettings(
+      {
+        countingMode: (process.env.EMOTE_COUNTING_MODE?.trim().toLowerCase()
+          || DEFAULT_CHANNEL_SETTINGS.countingMode) as CountingMode,
+        countingCap: parseNonNegativeInt('EMOTE_COUNTING_CAP', DEFAULT_CHANNEL_SETTINGS.countingCap),
+        storeBothCounts: parseBoolean('STORE_BOTH_COUNTS', DEFAULT_CHANNEL_SETTINGS.storeBothCounts),
+        spamFilter: parseBoolean('SPAM_FILTER', DEFAULT_CHANNEL_SETTINGS.spamFilter),
+        emoteCooldownSeconds: parseNonNegativeInt('SPAM_EMOTE_COOLDOWN_SECONDS', DEFAULT_CHANNEL_SETTINGS.emoteCooldownSeconds),
+        repeatWindowSeconds: parseNonNegativeInt('SPAM_REPEAT_WINDOW_SECONDS', DEFAULT_CHANNEL_SETTINGS.repeatWindowSeconds),
+        countSuppressed: parseBoolean('SPAM_COUNT_SUPPRESSED', DEFAULT_CHANNEL_SETTINGS.countSuppressed),
+        ignoredUsers: (process.env.IGNORED_USERS ?? '').split(','),
+        ignoreKnownBots: parseBoolean('IGNORE_KNOWN_BOTS', DEFAULT_CHANNEL_SETTINGS.ignoreKnownBots),
+        ignoreBroadcaster: parseBoolean('IGNORE_BROADCASTER', DEFAULT_CHANNEL_SETTINGS.ignoreBroadcaster),
+        trackGlobalEmotes: parseBoolean('TRACK_GLOBAL_EMOTES', DEFAULT_CHANNEL_SETTINGS.trackGlobalEmotes),
+        showGlobalEmotes: parseBoolean('SHOW_GLOBAL_EMOTES', DEFAULT_CHANNEL_SETTINGS.showGlobalEmotes),
+        trackTwitchEmotes: parseBoolean('TRACK_TWITCH_EMOTES', DEFAULT_CHANNEL_SETTINGS.trackTwitchEmotes)
+      },
+      process.env.CHANNEL_SETTINGS_FILE?.trim() || './channel-settings.json'
+    ),
+    staleEmotes: {
+      unusedDays: parseNonNegativeInt('STALE_UNUSED_DAYS', DEFAULT_STALE_CRITERIA.unusedDays),
+      minUsesPer1000: parseNonNegativeNumber('STALE_MIN_USES_PER_1000', DEFAULT_STALE_CRITERIA.minUsesPer1000),
+      graceDays: parseNonNegativeInt('STALE_GRACE_DAYS', DEFAULT_STALE_CRITERIA.graceDays)
+    },
+    sevenTVEvents: {
+      enabled: parseBoolean('SEVENTV_EVENTS', true),
+      url: process.env.SEVENTV_EVENTS_URL?.trim() || DEFAULT_EVENTS_URL
+    },
+    emoteProviders: parseEmoteProviders('EMOTE_PROVIDERS'),
+    sevenTV: {
+      apiUrl: parseUrl('SEVENTV_API_URL', DEFAULT_SEVENTV_ENDPOINTS.apiUrl),
+      cdnUrl: parseUrl('SEVENTV_CDN_URL', DEFAULT_SEVENTV_ENDPOINTS.cdnUrl),
+      imageSize: parseChoice('SEVENTV_IMAGE_SIZE', EMOTE_IMAGE_SIZES, DEFAULT_SEVENTV_ENDPOINTS.imageSize),
+      imageFormat: parseChoice('SEVENTV_IMAGE_FORMAT', SEVENTV_IMAGE_FORMATS, DEFAULT_SEVENTV_ENDPOINTS.imageFormat)
+    },
+    upstream: {
+      ...DEFAULT_UPSTREAM_OPTIONS,
+      attempts: Math.max(1, parseNonNegativeInt('UPSTREAM_RETRY_ATTEMPTS', DEFAULT_UPSTREAM_OPTIONS.attempts)),
+      breakerThreshold: parseNonNegativeInt('UPSTREAM_BREAKER_THRESHOLD', DEFAULT_UPSTREAM_OPTIONS.breakerThreshold),
+      breakerCooldownMs: parseNonNegativeInt(
+        'UPSTREAM_BREAKER_COOLDOWN_SECONDS',
+        DEFAULT_UPSTREAM_OPTIONS.breakerCooldownMs / 1000
+      ) * 1000
+    },
+    dashboardApiToken: process.env.DASHBOARD_API_TOKEN?.trim() || null
   };
 }
+
+/**
+ * Loads the token encryption key
+ * @param allowMissingKeyFile - Treat a key file that doesn't exist yet as no key, for creating it
+ * @throws {Error} If both variables are set, the key is too short, or the key file can't be read
+ */
+export function loadTokenEncryption(allowMissingKeyFile = false): TokenEncryptionConfig {
+  const envKey = process.env.TOKEN_ENCRYPTION_KEY?.trim() || null;
+  const keyFile = process.env.TOKEN_ENCRYPTION_KEY_FILE?.trim() || null;
+  if (envKey && keyFile) {
+    throw new Error('Set only one of TOKEN_ENCRYPTION_KEY and TOKEN_ENCRYPTION_KEY_FILE');
+  }
+
+  let key = envKey;
+  if (keyFile) {
+    try {
+      key = readFileSync(keyFile, 'utf-8').trim();
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      if (!allowMissingKeyFile) {
+        throw new Error(`TOKEN_ENCRYPTION_KEY_FILE ${keyFile} does not exist; create it with bun run rotate-token-key`);
+      }
+    }
+  }
+
+  if (key !== null && key.length < MIN_TOKEN_KEY_LENGTH) {
+    throw new Error(`The token encryption key must be at least ${MIN_TOKEN_KEY_LENGTH} characters`);
+  }
+
+  return { key, keyFile };
+}
+
+/**
+ * Reads an optional boolean environment variable (true/false, 1/0, yes/no)
+ * @throws {Error} If the variable is set to something else
+ */
+function parseBoolean(key: string, defaultValue: boolean): boolean {
+  const raw = process.env[key]?.trim().toLowerCase();
+  if (!raw) {
+    return defaultValue;
+  }
+
+  if (['true', '1', 'yes'].includes(raw)) return true;
+  if (['false', '0', 'no'].includes(raw)) return false;
+
+  throw new Error(`${key} must be true or false`);
+}
+
+/**
+ * Reads an optional non-negative integer environment variable
+ * @throws {Error} If the variable is set but not a non-negative integer
+ */
+function parseNonNegativeInt(key: string, defaultValue: number): number {
+  const raw = process.env[key]?.trim();
+  if (!raw) {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${key} must be a non-negative integer`);
+  }
+
+  return value;
+}
+
+/**
+ * Reads an optional non-negative number environment variable
+ * @throws {Error} If the variable is set but not a non-negative number
+ */
+function parseNonNegativeNumber(key: string, defaultValue: number): number {
+  const raw = process.env[key]?.trim();
+  if (!raw) {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${key} must be a non-negative number`);
+  }
+
+  return value;
+}
+
+/**
+ * Reads an optional comma-separated list of emote providers
+ * The order sets which provider wins when two provide an emote with the same name.
+ * @throws {Error} If the list is empty or names an unknown provider
+ */
+function parseEmoteProviders(key: string): EmoteProviderName[] {
+  const raw = process.env[key]?.trim();
+  if (!raw) {
+    return EMOTE_PROVIDERS;
+  }
+
+  const names = raw.split(',').map(name => name.trim().toLowerCase()).filter(name => name.length > 0);
+  const unknown = names.filter(name => !EMOTE_PROVIDERS.includes(name as EmoteProviderName));
+  if (names.length === 0 || unknown.length > 0) {
+    throw new Error(`${key} must be a comma-separated list of: ${EMOTE_PROVIDERS.join(', ')}`);
+  }
+
+  return Array.from(new Set(names)) as EmoteProviderName[];
+}
+
+/**
+ * Reads an optional http(s) base URL, dropping any trailing slash
+ * @throws {Error} If the variable is set but not an http(s) URL
+ */
+function parseUrl(key: string, defaultValue: string): string {
+  const raw = process.env[key]?.trim();
+  if (!raw) {
+    return defaultValue;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error(`${key} must be an http(s) URL`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`${key} must be an http(s) URL`);
+  }
+
+  return raw.replace(/\/+$/, '');
+}
+
+/**
+ * Reads an optional environment variable that must be one of a fixed set of values
+ * @throws {Error} If the variable is set to something else
+ */
+function parseChoice<T extends string>(key: string, choices: readonly T[], defaultValue: T): T {
+  const raw = process.env[key]?.trim().toLowerCase();
+  if (!raw) {
+    return defaultValue;
+  }
+
+  if (!choices.includes(raw as T)) {
+    throw new Error(`${key} must be one of: ${choices.join(', ')}`);
+  }
+
+  return raw as T;
+}
+
+/**
+ * Reads an optional comma-separated list of `channel:id` pairs
+ * @throws {Error} If an entry isn't a channel name and a numeric ID
+ */
+function parseChannelIds(key: string): Record<string, string> {
+  const channelIds: Record<string, string> = {};
+  const entries = (process.env[key] ?? '').split(',').map(entry => entry.trim()).filter(entry => entry.length > 0);
+
+  for (const entry of entries) {
+    const match = entry.match(/^(\w+):(\d+)$/);
+    if (!match) {
+      throw new Error(`${key} entries must look like channel:123456, got "${entry}"`);
+    }
+    channelIds[match[1]!.toLowerCase()] = match[2]!;
+  }
+
+  return channelIds;
+}
@@ -0,0 +1,46 @@
+import type { ChannelSettings } from '../config/channel-settings';
+
+/**
+ * Logins of well-known chat bots, ignored when ignoreKnownBots is enabled
+ */
+export const KNOWN_BOTS: ReadonlySet<string> = new Set([
+  'nightbot',
+  'streamelements',
+  'fossabot',
+  'moobot',
+  'streamlabs',
+  'wizebot',
+  'sery_bot',
+  'botrixoficial',
+  'soundalerts',
+  'kofistreambot',
+  'pokemoncommunitygame'
+]);
+
+/**
+ * The sender of a chat message
+ */
+export interface MessageSender {
+  userId: string;
+  userLogin: string;
+  isBroadcaster: boolean;
+}
+
+/**
+ * Checks whether a sender's messages should be left out of the statistics
+ * @param sender - The message sender
+ * @param settings - The channel's settings
+ */
+export function isIgnoredSender(sender: MessageSender, settings: ChannelSettings): boolean {
+  const login = sender.userLogin.toLowerCase();
+
+  if (settings.ignoreBroadcaster && sender.isBroadcaster) {
+    return true;
+  }
+
+  if (settings.ignoreKnownBots && KNOWN_BOTS.has(login)) {
+    return true;
+  }
+
+  return settings.ignoredUsers.includes(login) || settings.ignoredUsers.includes(sender.userId);
+}
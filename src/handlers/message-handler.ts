@@ -1,30 +1,77 @@
-import type { MessageEvent } from '@twurple/easy-bot';
+import type { ChatMessage } from '@twurple/chat';
+import type { ChannelSettings, ChannelSettingsManager } from '../config/channel-settings';
 import type { EmoteService } from '../services/emote-service';
-import type { StatisticsService } from '../services/statistics-service';
+import type { EmoteStatsMetadata, StatisticsService } from '../services/statistics-service';
 import type { UserService } from '../services/user-service';
+import { isIgnoredSender } from './ignore-list';
+import { SpamFilter } from './spam-filter';
+import { extractTwitchEmotes, twitchEmoteImageUrl } from './twitch-emotes';
+
+/**
+ * A chat message, with the fields the handler reads
+ */
+export interface IncomingChatMessage {
+  broadcasterName: string;
+  broadcasterId: string | null;
+  userId: string;
+  userName: string;
+  userDisplayName: string;
+  text: string;
+  /** Native Twitch emote IDs mapped to their `start-end` ranges */
+  emoteOffsets: Map<string, string[]>;
+  userInfo?: {
+    isMod: boolean;
+    isSubscriber: boolean;
+    isBroadcaster: boolean;
+    isVip: boolean;
+  };
+}
+
+/**
+ * Converts a message from Twurple's chat client
+ * @param channel - The channel name
+ * @param text - The message text
+ * @param msg - The parsed message
+ */
+export function toIncomingChatMessage(channel: string, text: string, msg: ChatMessage): IncomingChatMessage {
+  return {
+    broadcasterName: channel,
+    broadcasterId: msg.channelId,
+    userId: msg.userInfo.userId,
+    userName: msg.userInfo.userName,
+    userDisplayName: msg.userInfo.displayName,
+    text,
+    emoteOffsets: msg.emoteOffsets,
+    userInfo: msg.userInfo
+  };
+}
 
 /**
  * Handles incoming chat messages
  */
 export class MessageHandler {
+  private spamFilter = new SpamFilter();
+
   constructor(
     private userService: UserService,
     private emoteService: EmoteService,
-    private statisticsService: StatisticsService
+    private statisticsService: StatisticsService,
+    private channelSettings: ChannelSettingsManager
   ) { }
 
   /**
    * Processes an incoming chat message
-   * @param message - The chat message event from Twurple
+   * @param message - The chat message
    */
-  async handleMessage(message: MessageEvent): Promise<void> {
+  async handleMessage(message: IncomingChatMessage): Promise<void> {
     const channelName = message.broadcasterName;
     const userName = message.userDisplayName;
     const userId = message.userId;
+    const userLogin = message.userName;
     const messageText = message.text;
 
     // Safely access userInfo properties (may be undefined in some contexts)
-    const userInfo = (message as any).userInfo;
+    const userInfo = message.userInfo;
     const isMod = userInfo?.isMod ?? false;
     const isSubscriber = userInfo?.isSubscriber ?? false;
     const isBroadcaster = userInfo?.isBroadcaster ?? false;
@@ -52,30 +99,114 @@ export class MessageHandler {
       console.log(`  Badges: ${badges.join(', ')}`);
     }
 
+    // Skip bots and ignored chatters, only counting that their message was ignored
+    const settings = this.channelSettings.forChannel(channelName);
+    const sender = {
+      userId,
+      userLogin,
+      isBroadcaster: isBroadcaster || userId === message.broadcasterId
+    };
+    if (isIgnoredSender(sender, settings)) {
+      this.statisticsService.recordIgnoredMessage(channelName);
+      return;
+    }
+
     // Track message statistics
     this.statisticsService.recordMessage(channelName);
 
-    // Check for 7TV emotes in the message
+    // Native Twitch emotes are tagged by Twitch, so words tagged as one aren't third-party emotes
+    const twitchEmotes = settings.trackTwitchEmotes
+      ? extractTwitchEmotes(messageText, message.emoteOffsets)
+      : { emotes: [], remainingText: messageText };
+
+    // Check for 7TV, BTTV and FFZ emotes in the message
     const channelEmotes = await this.emoteService.getChannelEmotes(channelName);
-    const foundEmotes = this.emoteService.findEmotesInMessage(messageText, channelEmotes);
+    const foundEmotes = this.emoteService.countEmotesInMessage(twitchEmotes.remainingText, channelEmotes);
+
+    // Channel emotes take precedence over global emotes with the same name
+    if (settings.trackGlobalEmotes) {
+      const globalEmotes = await this.emoteService.getGlobalEmotes();
+      for (const [emote, occurrences] of this.emoteService.countEmotesInMessage(twitchEmotes.remainingText, globalEmotes)) {
+        if (!channelEmotes.has(emote)) {
+          foundEmotes.set(emote, occurrences);
+        }
+      }
+    }
+
+    const matches: Array<{ emote: string; occurrences: number; metadata?: EmoteStatsMetadata }> = [
+      ...twitchEmotes.emotes.map(({ id, name, occurrences }) => ({
+        emote: name,
+        occurrences,
+        metadata: { emoteId: id, imageUrl: twitchEmoteImageUrl(id), animated: false, provider: 'twitch' as const }
+      })),
+      ...Array.from(foundEmotes, ([emote, occurrences]) => ({
+        emote,
+        occurrences,
+        metadata: this.getEmoteMetadata(channelName, emote)
+      }))
+    ];
 
     // Record emote usage with metadata
-    if (foundEmotes.length > 0) {
-      for (const emote of foundEmotes) {
-        const metadata = this.emoteService.getEmoteMetadata(channelName, emote);
-        if (metadata) {
-          this.statisticsService.recordEmoteUsage(channelName, emote, {
-            emoteId: metadata.id,
-            imageUrl: metadata.imageUrl,
-            animated: metadata.animated
-          });
-        } else {
-          this.statisticsService.recordEmoteUsage(channelName, emote);
+    if (matches.length > 0) {
+      const chatter = { userId, userName: userLogin, displayName: userName };
+      const suppressed = this.spamFilter.filter(
+        channelName,
+        userId,
+        messageText,
+        matches.map(match => match.emote),
+        settings
+      );
+
+      for (const { emote, occurrences, metadata } of matches) {
+        const count = this.countUses(settings, occurrences);
+
+        if (suppressed.has(emote)) {
+          if (settings.countSuppressed) {
+            this.statisticsService.recordSuppressedEmoteUsage(channelName, emote, metadata, count);
+          }
+          continue;
         }
+
+        this.statisticsService.recordEmoteUsage(channelName, emote, metadata, {
+          chatter,
+          count,
+          instances: settings.storeBothCounts ? occurrences : undefined
+        });
       }
 
       //console.log(`[${channelName}] ${userName}: ${messageText}`);
-      //console.log(`  Emotes found: ${foundEmotes.join(', ')}`);
+      //console.log(`  Emotes found: ${matches.map(match => match.emote).join(', ')}`);
+    }
+  }
+
+  /**
+   * Gets the stats metadata of a channel or global third-party emote
+   */
+  private getEmoteMetadata(channelName: string, emote: string): EmoteStatsMetadata | undefined {
+    const emoteMetadata = this.emoteService.getEmoteMetadata(channelName, emote)
+      ?? this.emoteService.getGlobalEmoteMetadata(emote);
+    if (!emoteMetadata) return undefined;
+
+    return {
+      emoteId: emoteMetadata.id,
+      imageUrl: emoteMetadata.imageUrl,
+      animated: emoteMetadata.animated,
+      provider: emoteMetadata.provider,
+      global: emoteMetadata.global
+    };
+  }
+
+  /**
+   * Applies the channel's counting mode to the occurrences of an emote in one message
+   */
+  private countUses(settings: ChannelSettings, occurrences: number): number {
+    switch (settings.countingMode) {
+      case 'all':
+        return occurrences;
+      case 'capped':
+        return Math.min(occurrences, settings.countingCap);
+      default:
+        return 1;
     }
   }
 }
@@ -0,0 +1,95 @@
+import type { ChannelSettings } from '../config/channel-settings';
+
+/**
+ * Tracks recent chatter activity to suppress spammed emote uses
+ * - A chatter's use of an emote is suppressed while their cooldown for that emote runs
+ * - All emotes in a message are suppressed when it repeats the chatter's previous message
+ */
+export class SpamFilter {
+  // Last counted use per channel:user:emote
+  private emoteCooldowns: Map<string, number> = new Map();
+  // Last message per channel:user
+  private lastMessages: Map<string, { text: string; timestamp: number }> = new Map();
+  private lastSweep = Date.now();
+  // Longest cooldown or repeat window seen in any channel
+  private longestWindow = 60 * 1000;
+  private readonly SWEEP_INTERVAL = 60 * 1000; // 1 minute
+
+  /**
+   * Decides which emotes in a message are spam
+   * @param channelName - The channel the message was sent in
+   * @param userId - The chatter's user ID
+   * @param messageText - The message text
+   * @param emoteNames - Emotes found in the message
+   * @param settings - The channel's settings
+   * @returns Names of the emotes whose uses should be suppressed
+   */
+  filter(
+    channelName: string,
+    userId: string,
+    messageText: string,
+    emoteNames: string[],
+    settings: ChannelSettings
+  ): Set<string> {
+    const suppressed = new Set<string>();
+    if (!settings.spamFilter) {
+      return suppressed;
+    }
+
+    const now = Date.now();
+    this.longestWindow = Math.max(
+      this.longestWindow,
+      settings.emoteCooldownSeconds * 1000,
+      settings.repeatWindowSeconds * 1000
+    );
+    this.sweep(now);
+
+    const userKey = `${channelName.toLowerCase()}:${userId}`;
+    const text = messageText.trim();
+
+    // Identical repeated messages
+    const repeatWindow = settings.repeatWindowSeconds * 1000;
+    const previous = this.lastMessages.get(userKey);
+    const isRepeat = repeatWindow > 0 && previous?.text === text && now - previous.timestamp < repeatWindow;
+    this.lastMessages.set(userKey, { text, timestamp: now });
+
+    if (isRepeat) {
+      emoteNames.forEach(emoteName => suppressed.add(emoteName));
+      return suppressed;
+    }
+
+    // Per-user, per-emote cooldowns (measured from the last counted use)
+    const cooldown = settings.emoteCooldownSeconds * 1000;
+    if (cooldown > 0) {
+      for (const emoteName of emoteNames) {
+        const key = `${userKey}:${emoteName}`;
+        const lastCounted = this.emoteCooldowns.get(key);
+
+        if (lastCounted !== undefined && now - lastCounted < cooldown) {
+          suppressed.add(emoteName);
+        } else {
+          this.emoteCooldowns.set(key, now);
+        }
+      }
+    }
+
+    return suppressed;
+  }
+
+  /**
+   * Periodically drops entries older than the longest window so memory stays bounded
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < this.SWEEP_INTERVAL) {
+      return;
+    }
+    this.lastSweep = now;
+
+    for (const [key, timestamp] of this.emoteCooldowns) {
+      if (now - timestamp > this.longestWindow) this.emoteCooldowns.delete(key);
+    }
+    for (const [key, message] of this.lastMessages) {
+      if (now - message.timestamp > this.longestWindow) this.lastMessages.delete(key);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import type { EmoteImageSize } from '../providers/emote-provider';
+
+/**
+ * A native Twitch emote found in a chat message
+ */
+export interface TwitchEmoteMatch {
+  id: string;
+  name: string;
+  occurrences: number;
+}
+
+/**
+ * Gets the image URL of a native Twitch emote
+ * The default format serves animated emotes animated and the rest static.
+ */
+export function twitchEmoteImageUrl(emoteId: string, size: EmoteImageSize = '1x'): string {
+  // Twitch serves scales 1.0 to 3.0
+  const scale = size === '1x' ? '1.0' : size === '2x' ? '2.0' : '3.0';
+  return `https://static-cdn.jtvnw.net/emoticons/v2/${emoteId}/default/dark/${scale}`;
+}
+
+/**
+ * Extracts the native Twitch emotes (global, subscriber, follower...) from a message's emote tag
+ * Twitch only tags emotes the sender can use, so these are found by position rather than by name.
+ * @param text - The message text
+ * @param emoteOffsets - Emote IDs mapped to their `start-end` ranges, in Unicode code points
+ * @returns The emotes, and the text with them blanked out so they aren't matched as third-party emotes
+ */
+export function extractTwitchEmotes(
+  text: string,
+  emoteOffsets: Map<string, string[]>
+): { emotes: TwitchEmoteMatch[]; remainingText: string } {
+  const chars = Array.from(text);
+  const emotes: TwitchEmoteMatch[] = [];
+
+  for (const [id, ranges] of emoteOffsets) {
+    let name: string | null = null;
+    let occurrences = 0;
+
+    for (const range of ranges) {
+      const [start, end] = range.split('-').map(Number);
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start! < 0 || end! < start! || end! >= chars.length) {
+        continue;
+      }
+
+      name ??= chars.slice(start, end! + 1).join('');
+      chars.fill(' ', start, end! + 1);
+      occurrences++;
+    }
+
+    if (name) {
+      emotes.push({ id, name, occurrences });
+    }
+  }
+
+  return { emotes, remainingText: chars.join('') };
+}
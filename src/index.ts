@@ -1,7 +1,13 @@
+import { AppTokenAuthProvider, type AuthProvider } from '@twurple/auth';
 import { loadEnv } from './config/env';
-import { TokenManager } from './auth/token-manager';
+import { OAuthFlow } from './auth/oauth-flow';
+import { TokenCipher } from './auth/token-cipher';
+import { TokenManager, TokenRevokedError, type UserToken } from './auth/token-manager';
+import { TwitchOAuthClient } from './auth/twitch-oauth';
 import { TwitchChatBot } from './bot';
+import { ChannelStore } from './services/channel-store';
 import { DashboardServer } from './web/server';
+import { createStatsStorage } from './storage/stats-storage';
 
 // Store chatBot globally for graceful shutdown
 let chatBot: TwitchChatBot | null = null;
@@ -17,26 +23,72 @@ async function main() {
     const config = loadEnv();
     console.log(`[Main] Loaded configuration for ${config.channels.length} channel(s): ${config.channels.join(', ')}`);
 
-    // Create token manager and auth provider
-    const tokenManager = new TokenManager();
-    const initialToken = TokenManager.createInitialToken(
-      config.accessToken,
-      config.refreshToken
-    );
-
-    const authProvider = await tokenManager.createAuthProvider(
-      config.clientId,
-      config.clientSecret,
-      initialToken
-    );
-
-    console.log('[Main] Authentication provider initialized');
+    // Once channels have been added or removed at runtime, the saved list replaces TWITCH_CHANNELS
+    const channelStore = new ChannelStore();
+    const savedChannels = await channelStore.load();
+    const channels = savedChannels ?? config.channels;
+    if (savedChannels) {
+      console.log(`[Main] Tracking ${channels.length} channel(s) saved in ${channelStore.getFile()}: ${channels.join(', ')}`);
+    }
+
+    // Create token manager and auth provider; anonymous mode reads chat as a guest
+    let authProvider: AuthProvider | null = null;
+    let apiAuthProvider: AuthProvider | undefined;
+    let oauthFlow: OAuthFlow | null = null;
+    if (!config.auth.anonymous) {
+      // Tokens saved by earlier runs take precedence over the .env pair
+      const tokenManager = new TokenManager(
+        config.tokenEncryption.key ? new TokenCipher(config.tokenEncryption.key) : null
+      );
+      const envToken = config.auth.accessToken && config.auth.refreshToken
+        ? TokenManager.createInitialToken(config.auth.accessToken, config.auth.refreshToken)
+        : null;
+      const flow = new OAuthFlow(
+        new TwitchOAuthClient(config.auth.clientId, config.auth.clientSecret, config.auth.authUrl),
+        tokenManager,
+        config.auth.redirectUri
+      );
+      oauthFlow = flow;
+
+      // Without a usable token, sign in with a device code instead of giving up
+      authProvider = await tokenManager.createAuthProvider(
+        config.auth.clientId,
+        config.auth.clientSecret,
+        envToken,
+        () => signInWithDeviceCode(flow)
+      );
+
+      console.log('[Main] Authentication provider initialized');
+    } else if (config.auth.clientId && config.auth.clientSecret) {
+      apiAuthProvider = new AppTokenAuthProvider(config.auth.clientId, config.auth.clientSecret);
+      console.log('[Main] Anonymous mode: reading chat as a guest, looking up channels with an app token');
+    } else {
+      console.log('[Main] Anonymous mode: reading chat as a guest, channel IDs from TWITCH_CHANNEL_IDS only');
+    }
 
     // Create and start the bot
-    chatBot = new TwitchChatBot(authProvider, config.channels);
+    if (config.auth.anonymous && !apiAuthProvider) {
+      const unmapped = channels.filter(channel => !config.channelIds[channel.toLowerCase()]);
+      if (unmapped.length > 0) {
+        console.warn(`[Main] No channel ID for ${unmapped.join(', ')}: add them to TWITCH_CHANNEL_IDS to load their emotes`);
+      }
+    }
+
+    chatBot = new TwitchChatBot(authProvider, channels, {
+      statsStorage: createStatsStorage(config.statsStorage, config.statsBackups),
+      statistics: { trackChatters: config.trackChatters },
+      channelSettings: config.channelSettings,
+      sevenTVEvents: config.sevenTVEvents,
+      emoteProviders: config.emoteProviders,
+      sevenTV: config.sevenTV,
+      upstream: config.upstream,
+      channelStore,
+      apiAuthProvider,
+      channelIds: config.channelIds
+    });
 
     // Load existing statistics
-    await chatBot.getStatisticsService().loadStats();
+    await chatBot.loadStats();
 
     // Start auto-save
     chatBot.getStatisticsService().startAutoSave();
@@ -48,24 +100,45 @@ async function main() {
     const dashboard = new DashboardServer(
       chatBot.getStatisticsService(),
       chatBot.getEmoteService(),
-      3000
+      chatBot.getChannelSettings(),
+      chatBot.getUpstreamGuard(),
+      chatBot,
+      3000,
+      config.staleEmotes,
+      config.dashboardApiToken,
+      oauthFlow
     );
     dashboard.start();
 
     console.log('[Main] Dashboard available at http://localhost:3000');
 
   } catch (error) {
+    if (error instanceof TokenRevokedError) {
+      console.error(`[Main] ${error.message}`);
+      process.exit(1);
+    }
     console.error('[Main] Fatal error:', error);
     process.exit(1);
   }
 }
 
+/**
+ * Signs in by having the user enter a code on Twitch, for when no token is usable at startup
+ */
+async function signInWithDeviceCode(oauthFlow: OAuthFlow): Promise<UserToken> {
+  const status = await oauthFlow.startDeviceFlow();
+  console.log(`[Main] To sign the bot in, open ${status.verificationUri} and enter the code ${status.userCode}`);
+  console.log(`[Main] The code expires at ${new Date(status.expiresAt).toLocaleTimeString()}`);
+  return oauthFlow.waitForDeviceFlow();
+}
+
 // Handle graceful shutdown
 async function shutdown() {
   console.log('\n[Main] Shutting down bot...');
 
   if (chatBot) {
     // Stop auto-save and perform final save
+    chatBot.getSevenTVEvents()?.stop();
     await chatBot.getStatisticsService().stopAutoSave();
   }
 
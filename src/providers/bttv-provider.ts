@@ -0,0 +1,68 @@
+import type { EmoteImageSize, EmoteProvider, Fetcher, ProviderEmote } from './emote-provider';
+
+/**
+ * BetterTTV emote
+ */
+interface BttvEmote {
+  id: string;
+  code: string;
+  imageType: string;
+  animated?: boolean;
+}
+
+/**
+ * BetterTTV API response for a channel
+ */
+interface BttvUserResponse {
+  id: string;
+  channelEmotes: BttvEmote[];
+  sharedEmotes: BttvEmote[];
+}
+
+/**
+ * Fetches emotes from BetterTTV
+ */
+export class BttvProvider implements EmoteProvider {
+  readonly name = 'bttv';
+
+  constructor(private fetcher: Fetcher = url => fetch(url)) {}
+
+  async fetchChannelEmotes(channelId: string): Promise<ProviderEmote[] | null> {
+    const response = await this.fetcher(`https://api.betterttv.net/3/cached/users/twitch/${channelId}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`BTTV API returned ${response.status}`);
+    }
+
+    const data = await response.json() as BttvUserResponse;
+    return [...data.channelEmotes, ...data.sharedEmotes].map(emote => this.toProviderEmote(emote));
+  }
+
+  async fetchGlobalEmotes(): Promise<ProviderEmote[]> {
+    const response = await this.fetcher('https://api.betterttv.net/3/cached/emotes/global');
+    if (!response.ok) {
+      throw new Error(`BTTV API returned ${response.status}`);
+    }
+
+    const emotes = await response.json() as BttvEmote[];
+    return emotes.map(emote => this.toProviderEmote(emote));
+  }
+
+  /**
+   * BTTV images go up to 3x
+   */
+  getImageUrl(emoteId: string, size: EmoteImageSize): string {
+    return `https://cdn.betterttv.net/emote/${emoteId}/${size === '4x' ? '3x' : size}.webp`;
+  }
+
+  private toProviderEmote(emote: BttvEmote): ProviderEmote {
+    return {
+      id: emote.id,
+      name: emote.code,
+      imageUrl: this.getImageUrl(emote.id, '1x'),
+      animated: emote.animated ?? emote.imageType === 'gif'
+    };
+  }
+}
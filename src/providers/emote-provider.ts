@@ -0,0 +1,90 @@
+import { BttvProvider } from './bttv-provider';
+import { FfzProvider } from './ffz-provider';
+import { DEFAULT_SEVENTV_ENDPOINTS, SevenTVProvider, type SevenTVEndpoints } from './seventv-provider';
+
+/**
+ * Available emote providers
+ */
+export type EmoteProviderName = '7tv' | 'bttv' | 'ffz';
+
+export const EMOTE_PROVIDERS: EmoteProviderName[] = ['7tv', 'bttv', 'ffz'];
+
+/**
+ * Where a tracked emote comes from
+ * Native Twitch emotes aren't fetched from a provider but read from each chat message's emote tags.
+ */
+export type EmoteSource = EmoteProviderName | 'twitch';
+
+/**
+ * Emote image sizes, from 1x (about 28px high) upwards
+ */
+export type EmoteImageSize = '1x' | '2x' | '3x' | '4x';
+
+export const EMOTE_IMAGE_SIZES: EmoteImageSize[] = ['1x', '2x', '3x', '4x'];
+
+/**
+ * An emote as reported by a provider
+ */
+export interface ProviderEmote {
+  id: string;
+  name: string;
+  imageUrl: string;
+  animated: boolean;
+  /** When the emote was added to the channel (ms timestamp), if the provider reports it */
+  addedAt?: number;
+  /** When the bot first saw the emote (ms timestamp), recorded where the provider doesn't report addedAt */
+  firstSeenAt?: number;
+}
+
+/**
+ * Performs HTTP requests for a provider, e.g. with retries
+ */
+export type Fetcher = (url: string) => Promise<Response>;
+
+/**
+ * Source of third-party emotes for Twitch channels
+ */
+export interface EmoteProvider {
+  readonly name: EmoteProviderName;
+
+  /**
+   * Fetches a channel's emotes
+   * @param channelId - The Twitch channel ID
+   * @returns The emotes, or null if the channel has no account with the provider
+   */
+  fetchChannelEmotes(channelId: string): Promise<ProviderEmote[] | null>;
+
+  /**
+   * Fetches the emotes available in every channel
+   */
+  fetchGlobalEmotes(): Promise<ProviderEmote[]>;
+
+  /**
+   * Gets the CDN URL of an emote image
+   * @param size - The requested size; providers without it serve their closest size
+   */
+  getImageUrl(emoteId: string, size: EmoteImageSize, animated: boolean): string;
+}
+
+/**
+ * Creates the providers selected in the configuration
+ * @param names - Provider names, in order of precedence when emote names collide
+ * @param fetcher - Performs the providers' HTTP requests
+ * @param sevenTV - 7TV API and CDN locations
+ */
+export function createEmoteProviders(
+  names: EmoteProviderName[] = EMOTE_PROVIDERS,
+  fetcher: Fetcher = url => fetch(url),
+  sevenTV: SevenTVEndpoints = DEFAULT_SEVENTV_ENDPOINTS
+): EmoteProvider[] {
+  return names.map(name => {
+    switch (name) {
+      case 'bttv':
+        return new BttvProvider(fetcher);
+      case 'ffz':
+        return new FfzProvider(fetcher);
+      default:
+        return new SevenTVProvider(fetcher, sevenTV);
+    }
+  });
+}
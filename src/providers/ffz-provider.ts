@@ -0,0 +1,88 @@
+import type { EmoteImageSize, EmoteProvider, Fetcher, ProviderEmote } from './emote-provider';
+
+/**
+ * FrankerFaceZ emote
+ */
+interface FfzEmote {
+  id: number;
+  name: string;
+  /** Animated image URLs keyed by scale, only present for animated emotes */
+  animated?: Record<string, string> | null;
+}
+
+/**
+ * FrankerFaceZ emote set
+ */
+interface FfzSet {
+  id: number;
+  emoticons: FfzEmote[];
+}
+
+/**
+ * FrankerFaceZ API response for a channel
+ */
+interface FfzRoomResponse {
+  room: { set: number };
+  sets: Record<string, FfzSet>;
+}
+
+/**
+ * FrankerFaceZ API response for the global sets
+ */
+interface FfzGlobalResponse {
+  /** Sets available to every user; the others are opt-in */
+  default_sets: number[];
+  sets: Record<string, FfzSet>;
+}
+
+/**
+ * Fetches emotes from FrankerFaceZ
+ */
+export class FfzProvider implements EmoteProvider {
+  readonly name = 'ffz';
+
+  constructor(private fetcher: Fetcher = url => fetch(url)) {}
+
+  async fetchChannelEmotes(channelId: string): Promise<ProviderEmote[] | null> {
+    const response = await this.fetcher(`https://api.frankerfacez.com/v1/room/id/${channelId}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`FFZ API returned ${response.status}`);
+    }
+
+    const data = await response.json() as FfzRoomResponse;
+    return Object.values(data.sets).flatMap(set => set.emoticons.map(emote => this.toProviderEmote(emote)));
+  }
+
+  async fetchGlobalEmotes(): Promise<ProviderEmote[]> {
+    const response = await this.fetcher('https://api.frankerfacez.com/v1/set/global');
+    if (!response.ok) {
+      throw new Error(`FFZ API returned ${response.status}`);
+    }
+
+    const data = await response.json() as FfzGlobalResponse;
+    return data.default_sets
+      .flatMap(setId => data.sets[String(setId)]?.emoticons ?? [])
+      .map(emote => this.toProviderEmote(emote));
+  }
+
+  /**
+   * FFZ images come in scales 1, 2 and 4, with animated emotes under a separate path
+   */
+  getImageUrl(emoteId: string, size: EmoteImageSize, animated: boolean): string {
+    const scale = size === '1x' ? 1 : size === '2x' ? 2 : 4;
+    return `https://cdn.frankerfacez.com/emote/${emoteId}${animated ? '/animated' : ''}/${scale}`;
+  }
+
+  private toProviderEmote(emote: FfzEmote): ProviderEmote {
+    const animated = Boolean(emote.animated);
+    return {
+      id: String(emote.id),
+      name: emote.name,
+      imageUrl: this.getImageUrl(String(emote.id), '1x', animated),
+      animated
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import type { EmoteImageSize, EmoteProvider, Fetcher, ProviderEmote } from './emote-provider';
+
+/**
+ * Represents a 7TV emote
+ */
+export interface SevenTVEmote {
+  id: string;
+  name: string;
+  flags: number;
+  timestamp: number;
+  actor_id: string | null;
+  data: {
+    id: string;
+    name: string;
+    flags: number;
+    lifecycle: number;
+    state: string[];
+    listed: boolean;
+    animated: boolean;
+    owner: {
+      id: string;
+      username: string;
+      display_name: string;
+      avatar_url: string;
+    };
+  };
+}
+
+/**
+ * Represents a 7TV emote set
+ */
+export interface SevenTVEmoteSet {
+  id: string;
+  name: string;
+  flags: number;
+  capacity: number;
+  emotes: SevenTVEmote[];
+}
+
+/**
+ * 7TV API response structure for a Twitch user
+ */
+export interface SevenTVUser {
+  id: string;
+  platform: string;
+  username: string;
+  display_name: string;
+  linked_at: number;
+  emote_capacity: number;
+  emote_set_id: string | null;
+  emote_set: SevenTVEmoteSet | null;
+  user: {
+    id: string;
+    username: string;
+    display_name: string;
+    avatar_url: string;
+  };
+}
+
+export type SevenTVImageFormat = 'webp' | 'avif';
+
+export const SEVENTV_IMAGE_FORMATS: SevenTVImageFormat[] = ['webp', 'avif'];
+
+/**
+ * 7TV API and CDN locations, e.g. a local mock server or a caching proxy
+ */
+export interface SevenTVEndpoints {
+  /** REST API base URL, without trailing slash */
+  apiUrl: string;
+  /** Image CDN base URL, without trailing slash */
+  cdnUrl: string;
+  /** Emote image size; larger sizes look sharper on high-DPI displays */
+  imageSize: EmoteImageSize;
+  imageFormat: SevenTVImageFormat;
+}
+
+export const DEFAULT_SEVENTV_ENDPOINTS: SevenTVEndpoints = {
+  apiUrl: 'https://7tv.io/v3',
+  cdnUrl: 'https://cdn.7tv.app',
+  imageSize: '1x',
+  imageFormat: 'webp'
+};
+
+/**
+ * Fetches emotes from 7TV
+ * Besides the emotes, the full user response is available for emote set tracking.
+ */
+export class SevenTVProvider implements EmoteProvider {
+  readonly name = '7tv';
+
+  constructor(
+    private fetcher: Fetcher = url => fetch(url),
+    private endpoints: SevenTVEndpoints = DEFAULT_SEVENTV_ENDPOINTS
+  ) {}
+
+  /**
+   * Converts a 7TV emote to a provider emote
+   */
+  toProviderEmote(emote: SevenTVEmote): ProviderEmote {
+    return {
+      id: emote.data.id,
+      name: emote.name,
+      imageUrl: this.getImageUrl(emote.data.id, this.endpoints.imageSize),
+      animated: emote.data.animated,
+      addedAt: emote.timestamp
+    };
+  }
+
+  /**
+   * Fetches a channel's 7TV user and active emote set
+   * @param channelId - The Twitch channel ID
+   * @returns The user, or null if the channel has no 7TV account
+   */
+  async fetchUser(channelId: string): Promise<SevenTVUser | null> {
+    const response = await this.fetcher(`${this.endpoints.apiUrl}/users/twitch/${channelId}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`7TV API returned ${response.status}`);
+    }
+
+    return await response.json() as SevenTVUser;
+  }
+
+  async fetchChannelEmotes(channelId: string): Promise<ProviderEmote[] | null> {
+    const user = await this.fetchUser(channelId);
+    if (!user) {
+      return null;
+    }
+
+    return (user.emote_set?.emotes ?? []).map(emote => this.toProviderEmote(emote));
+  }
+
+  async fetchGlobalEmotes(): Promise<ProviderEmote[]> {
+    const response = await this.fetcher(`${this.endpoints.apiUrl}/emote-sets/global`);
+    if (!response.ok) {
+      throw new Error(`7TV API returned ${response.status}`);
+    }
+
+    const emoteSet = await response.json() as SevenTVEmoteSet;
+    return (emoteSet.emotes ?? []).map(emote => this.toProviderEmote(emote));
+  }
+
+  getImageUrl(emoteId: string, size: EmoteImageSize): string {
+    return `${this.endpoints.cdnUrl}/emote/${emoteId}/${size}.${this.endpoints.imageFormat}`;
+  }
+}
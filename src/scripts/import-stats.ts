@@ -0,0 +1,26 @@
+import { SqliteStatsStorage } from '../storage/sqlite-stats-storage';
+
+/**
+ * Imports an existing stats.json file into the SQLite database
+ * Usage: bun run import-stats [stats.json path] [stats.db path]
+ */
+async function main() {
+  const jsonFile = process.argv[2] ?? './data/statistics/stats.json';
+  const dbFile = process.argv[3] ?? './data/statistics/stats.db';
+
+  const storage = new SqliteStatsStorage(dbFile, jsonFile);
+  try {
+    const imported = await storage.importJsonStats(jsonFile);
+    if (imported === null) {
+      console.error(`[ImportStats] ${jsonFile} not found`);
+      process.exitCode = 1;
+    }
+  } finally {
+    await storage.close();
+  }
+}
+
+main().catch(error => {
+  console.error('[ImportStats] Import failed:', error);
+  process.exit(1);
+});
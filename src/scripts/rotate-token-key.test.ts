@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test';
+import type { AccessToken } from '@twurple/auth';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TokenCipher, type EncryptedTokenFile } from '../auth/token-cipher';
+import { TokenManager } from '../auth/token-manager';
+
+const OLD_KEY = 'old-key-0123456789abcdef';
+const NEW_KEY = 'new-key-0123456789abcdef';
+const SCRIPT = path.join(import.meta.dir, 'rotate-token-key.ts');
+
+const token = (accessToken: string): AccessToken => ({
+  accessToken,
+  refreshToken: `${accessToken}-refresh`,
+  scope: ['chat:read'],
+  expiresIn: 14400,
+  obtainmentTimestamp: 1700000000000
+});
+
+let dir: string;
+let tokenDir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rotate-token-key-'));
+  tokenDir = path.join(dir, 'tokens');
+
+  // One token in use and one set aside as revoked, both on the old key
+  const manager = new TokenManager(new TokenCipher(OLD_KEY), tokenDir);
+  await manager.addToken({ userId: '1234', userName: 'somebot', token: token('access-current') });
+  await manager.addToken({ userId: '5678', userName: 'oldbot', token: token('access-revoked') });
+  await fs.rename(path.join(tokenDir, 'tokens.5678.json'), path.join(tokenDir, 'tokens.5678.json.revoked'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Runs the script with only the given key variables set
+ */
+async function rotate(env: Record<string, string>): Promise<{ exitCode: number; output: string }> {
+  // Run outside the repo so a local .env isn't loaded
+  const child = Bun.spawn([process.execPath, SCRIPT, tokenDir], {
+    cwd: dir,
+    env: { PATH: process.env.PATH ?? '', ...env },
+    stdout: 'pipe',
+    stderr: 'pipe'
+  });
+  const output = await new Response(child.stdout).text() + await new Response(child.stderr).text();
+  return { exitCode: await child.exited, output };
+}
+
+async function readToken(file: string, key: string): Promise<AccessToken> {
+  const encrypted = JSON.parse(await fs.readFile(path.join(tokenDir, file), 'utf-8')) as EncryptedTokenFile;
+  return JSON.parse(await new TokenCipher(key).decrypt(encrypted)) as AccessToken;
+}
+
+test('re-encrypts every token, including revoked ones, with the new key', async () => {
+  const { exitCode, output } = await rotate({ TOKEN_ENCRYPTION_KEY: OLD_KEY, NEW_TOKEN_ENCRYPTION_KEY: NEW_KEY });
+  expect(output).toContain('Re-encrypted 2 token file(s)');
+  expect(exitCode).toBe(0);
+
+  expect(await readToken('tokens.1234.json', NEW_KEY)).toEqual(token('access-current'));
+  expect(await readToken('tokens.5678.json.revoked', NEW_KEY)).toEqual(token('access-revoked'));
+  expect(await readToken('tokens.1234.json', OLD_KEY).catch(e => e.name)).toBe('TokenDecryptionError');
+});
+
+test('replaces the key file once the tokens are re-encrypted', async () => {
+  const keyFile = path.join(dir, 'token.key');
+  await fs.writeFile(keyFile, `${OLD_KEY}\n`);
+
+  const { exitCode } = await rotate({ TOKEN_ENCRYPTION_KEY_FILE: keyFile });
+  expect(exitCode).toBe(0);
+
+  const newKey = (await fs.readFile(keyFile, 'utf-8')).trim();
+  expect(newKey).not.toBe(OLD_KEY);
+  expect(await fs.readdir(dir)).not.toContain('token.key.new');
+  expect(await readToken('tokens.1234.json', newKey)).toEqual(token('access-current'));
+});
+
+test('fails without touching the tokens when the current key is wrong', async () => {
+  const before = await fs.readFile(path.join(tokenDir, 'tokens.1234.json'), 'utf-8');
+
+  const { exitCode, output } = await rotate({ TOKEN_ENCRYPTION_KEY: 'wrong-key-0123456789', NEW_TOKEN_ENCRYPTION_KEY: NEW_KEY });
+  expect(exitCode).toBe(1);
+  expect(output).toContain('Rotation failed');
+  expect(await fs.readFile(path.join(tokenDir, 'tokens.1234.json'), 'utf-8')).toBe(before);
+});
@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs';
+import { MIN_TOKEN_KEY_LENGTH, TokenCipher } from '../auth/token-cipher';
+import { TokenManager } from '../auth/token-manager';
+import { loadTokenEncryption } from '../config/env';
+
+/**
+ * Re-encrypts the stored Twitch tokens with a new key; stop the bot first
+ * Usage: bun run rotate-token-key [token dir]
+ * The current key comes from TOKEN_ENCRYPTION_KEY or TOKEN_ENCRYPTION_KEY_FILE, and plain JSON tokens are
+ * encrypted too. The new key is NEW_TOKEN_ENCRYPTION_KEY if set, otherwise a generated one. With a key
+ * file, the new key replaces it once every token is re-encrypted; otherwise it's printed to put in .env.
+ */
+async function main() {
+  const tokenDir = process.argv[2] ?? './data/tokens';
+  const { key, keyFile } = loadTokenEncryption(true);
+  const pendingKeyFile = keyFile ? `${keyFile}.new` : null;
+
+  // A key left from an interrupted rotation is used again, since some tokens may already be encrypted with it
+  const newKey = process.env.NEW_TOKEN_ENCRYPTION_KEY?.trim()
+    || (pendingKeyFile ? await readKey(pendingKeyFile) : null)
+    || TokenCipher.generateKey();
+  if (newKey.length < MIN_TOKEN_KEY_LENGTH) {
+    throw new Error(`NEW_TOKEN_ENCRYPTION_KEY must be at least ${MIN_TOKEN_KEY_LENGTH} characters`);
+  }
+
+  // Keep the new key before any token depends on it
+  if (pendingKeyFile) {
+    await fs.writeFile(pendingKeyFile, `${newKey}\n`, { encoding: 'utf-8', mode: 0o600 });
+    await fs.chmod(pendingKeyFile, 0o600);
+  } else if (!process.env.NEW_TOKEN_ENCRYPTION_KEY) {
+    console.log(`[RotateTokenKey] New key: ${newKey}`);
+    console.log('[RotateTokenKey] If this run is interrupted, run it again with NEW_TOKEN_ENCRYPTION_KEY set to it');
+  }
+
+  const tokenManager = new TokenManager(new TokenCipher(newKey, key ? [key] : []), tokenDir);
+  const count = await tokenManager.reencryptTokens();
+
+  if (keyFile && pendingKeyFile) {
+    await fs.rename(pendingKeyFile, keyFile);
+    console.log(`[RotateTokenKey] Re-encrypted ${count} token file(s), new key saved to ${keyFile}`);
+  } else {
+    console.log(`[RotateTokenKey] Re-encrypted ${count} token file(s). Set TOKEN_ENCRYPTION_KEY to the new key before starting the bot`);
+  }
+}
+
+/**
+ * Reads a key file
+ * @returns The key, or null if the file doesn't exist
+ */
+async function readKey(file: string): Promise<string | null> {
+  try {
+    return (await fs.readFile(file, 'utf-8')).trim() || null;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+main().catch(error => {
+  console.error('[RotateTokenKey] Rotation failed:', error);
+  process.exit(1);
+});
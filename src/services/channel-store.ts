@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+interface ChannelListFile {
+  version: 1;
+  channels: string[];
+}
+
+/**
+ * Persists the tracked channel list once channels are added or removed at runtime
+ * Until then TWITCH_CHANNELS decides which channels are tracked.
+ */
+export class ChannelStore {
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private channelsFile: string = './data/channels.json') {}
+
+  /**
+   * Gets the file the channel list is saved to
+   */
+  getFile(): string {
+    return this.channelsFile;
+  }
+
+  /**
+   * Loads the saved channel list
+   * @returns The channels, or null if the list was never changed at runtime
+   */
+  async load(): Promise<string[] | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.channelsFile, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const parsed = JSON.parse(data) as ChannelListFile;
+    if (!Array.isArray(parsed.channels) || !parsed.channels.every(channel => typeof channel === 'string')) {
+      throw new Error(`${this.channelsFile} has no valid channel list`);
+    }
+    return parsed.channels;
+  }
+
+  /**
+   * Queues a write of the channel list
+   * @param channels - The tracked channels
+   * @throws If the list can't be written
+   */
+  save(channels: string[]): Promise<void> {
+    const file: ChannelListFile = { version: 1, channels: [...channels] };
+    const write = this.saving.then(() => this.write(file));
+    // A failed write doesn't hold up the next one
+    this.saving = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Writes the list to a temp file and renames it over the original
+   */
+  private async write(file: ChannelListFile): Promise<void> {
+    await fs.mkdir(path.dirname(this.channelsFile), { recursive: true });
+    const tempFile = `${this.channelsFile}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(file, null, 2), 'utf-8');
+    await fs.rename(tempFile, this.channelsFile);
+  }
+}
@@ -0,0 +1,82 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EmoteProviderName, ProviderEmote } from '../providers/emote-provider';
+
+/**
+ * A channel's last successfully fetched emotes
+ */
+export interface CachedChannelEmotes {
+  /** When the emotes were fetched */
+  fetchedAt: number;
+  /** Emotes of each provider the channel has an account with */
+  providers: Partial<Record<EmoteProviderName, ProviderEmote[]>>;
+}
+
+interface EmoteCacheFile {
+  version: 1;
+  channels: Record<string, CachedChannelEmotes>;
+}
+
+/**
+ * Persists each channel's last fetched emotes, so the full emote list is available
+ * right after a restart even if the providers are slow or down
+ */
+export class EmoteCacheStore {
+  private channels: Map<string, CachedChannelEmotes> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private cacheFile: string = './data/emotes/emote-cache.json') {}
+
+  /**
+   * Loads the cached emotes from disk
+   * @returns Cached emotes keyed by channel name
+   */
+  async load(): Promise<Map<string, CachedChannelEmotes>> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.cacheFile, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return new Map();
+      throw error;
+    }
+
+    try {
+      const parsed = JSON.parse(data) as EmoteCacheFile;
+      this.channels = new Map(Object.entries(parsed.channels ?? {}));
+      console.log(`[EmoteCacheStore] Loaded cached emotes for ${this.channels.size} channel(s) from ${this.cacheFile}`);
+    } catch (error) {
+      // The cache is only a fallback, so the next fetch simply starts a new one
+      console.error(`[EmoteCacheStore] ${this.cacheFile} is unreadable, ignoring it:`, error);
+    }
+
+    return new Map(this.channels);
+  }
+
+  /**
+   * Stores a channel's emotes and queues a write
+   * @param channelName - The channel name
+   * @param emotes - The channel's emotes
+   */
+  save(channelName: string, emotes: CachedChannelEmotes): Promise<void> {
+    this.channels.set(channelName.toLowerCase(), emotes);
+    this.saving = this.saving.then(() => this.write()).catch(error => {
+      console.error('[EmoteCacheStore] Error saving emote cache:', error);
+    });
+    return this.saving;
+  }
+
+  /**
+   * Writes the cache to a temp file and renames it over the original
+   */
+  private async write(): Promise<void> {
+    const file: EmoteCacheFile = {
+      version: 1,
+      channels: Object.fromEntries(this.channels)
+    };
+
+    await fs.mkdir(path.dirname(this.cacheFile), { recursive: true });
+    const tempFile = `${this.cacheFile}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(file), 'utf-8');
+    await fs.rename(tempFile, this.cacheFile);
+  }
+}
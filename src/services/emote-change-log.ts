@@ -0,0 +1,255 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { SevenTVEmote } from '../providers/seventv-provider';
+
+/**
+ * Kind of change to a channel's emote set
+ */
+export type EmoteChangeType = 'added' | 'removed' | 'renamed' | 'set-switched';
+
+/**
+ * A single change to a channel's emote set
+ */
+export interface EmoteChange {
+  channel: string;
+  type: EmoteChangeType;
+  /** When the change was detected */
+  timestamp: number;
+  emoteId?: string;
+  emoteName?: string;
+  /** Alias before a rename */
+  previousName?: string;
+  /** Active emote set after a set switch */
+  setId?: string | null;
+  setName?: string | null;
+  /** Active emote set before a set switch */
+  previousSetId?: string | null;
+  /** 7TV user who made the change, when known */
+  actorId?: string | null;
+}
+
+/**
+ * Active emote set as returned by the 7TV API
+ */
+export interface EmoteSetSnapshot {
+  id: string;
+  name: string;
+  emotes: SevenTVEmote[];
+}
+
+/**
+ * Last seen emote set of a channel, used as the baseline for the next diff
+ */
+interface StoredSnapshot {
+  setId: string | null;
+  /** Emote alias keyed by emote ID */
+  emotes: Record<string, string>;
+}
+
+interface ChangeLogFile {
+  version: 1;
+  snapshots: Record<string, StoredSnapshot>;
+  changes: EmoteChange[];
+}
+
+/**
+ * Query options for the change log
+ */
+export interface EmoteChangeQuery {
+  /** Only changes at or after this timestamp */
+  since?: number;
+  /** Maximum number of changes to return (newest first) */
+  limit?: number;
+}
+
+const MAX_CHANGES_PER_CHANNEL = 1000;
+
+/**
+ * Records additions, removals, renames and set switches in channels' 7TV emote sets
+ * The last seen set of each channel is persisted with the log, so changes made
+ * while the bot was offline are picked up on the next fetch.
+ */
+export class EmoteChangeLog {
+  private snapshots: Map<string, StoredSnapshot> = new Map();
+  private changes: EmoteChange[] = [];
+  private loading: Promise<void> = Promise.resolve();
+  private saving: Promise<void> = Promise.resolve();
+  /** Cleared if the file couldn't be read, so it isn't overwritten with a partial log */
+  private persist = true;
+
+  constructor(private logFile: string = './data/statistics/emote-changes.json') {}
+
+  /**
+   * Loads the change log from disk
+   * Diffs wait for the load to finish so they compare against the persisted sets. If the file can't be
+   * read, the log starts empty and is kept in memory only until the next start; this never rejects.
+   */
+  load(): Promise<void> {
+    this.loading = this.read().catch(error => {
+      console.error(`[EmoteChangeLog] Could not read ${this.logFile}, recording changes without saving them:`, error);
+      this.persist = false;
+    });
+    return this.loading;
+  }
+
+  /**
+   * Diffs a freshly fetched emote set against the previous one and records the changes
+   * @param channelName - The channel name
+   * @param emoteSet - The channel's active emote set, or null if it has none
+   * @param actorId - 7TV user who made the changes, when known
+   * @returns The recorded changes
+   */
+  async recordEmoteSet(
+    channelName: string,
+    emoteSet: EmoteSetSnapshot | null,
+    actorId?: string | null
+  ): Promise<EmoteChange[]> {
+    await this.loading;
+
+    const channel = channelName.toLowerCase();
+    const previous = this.snapshots.get(channel);
+    const current: StoredSnapshot = { setId: emoteSet?.id ?? null, emotes: {} };
+    const actors = new Map<string, string | null>();
+    for (const emote of emoteSet?.emotes ?? []) {
+      current.emotes[emote.id] = emote.name;
+      actors.set(emote.id, emote.actor_id);
+    }
+
+    this.snapshots.set(channel, current);
+
+    // The first fetch only establishes the baseline
+    if (!previous) {
+      await this.save();
+      return [];
+    }
+
+    const timestamp = Date.now();
+    const changes: EmoteChange[] = [];
+    const actor = actorId ? { actorId } : {};
+
+    if (previous.setId !== current.setId) {
+      changes.push({
+        channel,
+        type: 'set-switched',
+        timestamp,
+        setId: current.setId,
+        setName: emoteSet?.name ?? null,
+        previousSetId: previous.setId,
+        ...actor
+      });
+    }
+
+    for (const [emoteId, emoteName] of Object.entries(current.emotes)) {
+      const previousName = previous.emotes[emoteId];
+      if (previousName === undefined) {
+        changes.push({ channel, type: 'added', timestamp, emoteId, emoteName, actorId: actorId ?? actors.get(emoteId) ?? null });
+      } else if (previousName !== emoteName) {
+        changes.push({ channel, type: 'renamed', timestamp, emoteId, emoteName, previousName, ...actor });
+      }
+    }
+
+    for (const [emoteId, emoteName] of Object.entries(previous.emotes)) {
+      if (current.emotes[emoteId] === undefined) {
+        changes.push({ channel, type: 'removed', timestamp, emoteId, emoteName, ...actor });
+      }
+    }
+
+    if (changes.length > 0) {
+      this.changes.push(...changes);
+      this.trim(channel);
+      console.log(`[EmoteChangeLog] ${channel}: ${this.describe(changes)}`);
+      await this.save();
+    }
+
+    return changes;
+  }
+
+  /**
+   * Gets a channel's changes, newest first
+   */
+  getChanges(channelName: string, query: EmoteChangeQuery = {}): EmoteChange[] {
+    const channel = channelName.toLowerCase();
+    const since = query.since ?? 0;
+
+    const changes = this.changes
+      .filter(change => change.channel === channel && change.timestamp >= since)
+      .reverse();
+
+    return query.limit !== undefined ? changes.slice(0, query.limit) : changes;
+  }
+
+  /**
+   * Summarizes changes for logging
+   */
+  private describe(changes: EmoteChange[]): string {
+    const counts = new Map<EmoteChangeType, number>();
+    for (const change of changes) {
+      counts.set(change.type, (counts.get(change.type) ?? 0) + 1);
+    }
+    return Array.from(counts, ([type, count]) => `${count} ${type}`).join(', ');
+  }
+
+  /**
+   * Drops a channel's oldest changes beyond the retention limit
+   */
+  private trim(channel: string): void {
+    const channelChanges = this.changes.filter(change => change.channel === channel);
+    const excess = channelChanges.length - MAX_CHANGES_PER_CHANNEL;
+    if (excess <= 0) return;
+
+    const dropped = new Set(channelChanges.slice(0, excess));
+    this.changes = this.changes.filter(change => !dropped.has(change));
+  }
+
+  /**
+   * Reads the log file, starting empty if it doesn't exist
+   */
+  private async read(): Promise<void> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.logFile, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+
+    try {
+      const parsed = JSON.parse(data) as ChangeLogFile;
+      this.snapshots = new Map(Object.entries(parsed.snapshots ?? {}));
+      this.changes = Array.isArray(parsed.changes) ? parsed.changes : [];
+      console.log(`[EmoteChangeLog] Loaded ${this.changes.length} emote set change(s) from ${this.logFile}`);
+    } catch (error) {
+      // Without a baseline the next fetch just starts a new one
+      console.error(`[EmoteChangeLog] ${this.logFile} is unreadable, starting a new log:`, error);
+    }
+  }
+
+  /**
+   * Queues an atomic write of the log file after any write in progress
+   */
+  private save(): Promise<void> {
+    if (!this.persist) {
+      return this.saving;
+    }
+    this.saving = this.saving.then(() => this.write()).catch(error => {
+      console.error('[EmoteChangeLog] Error saving change log:', error);
+    });
+    return this.saving;
+  }
+
+  /**
+   * Writes the log to a temp file and renames it over the original
+   */
+  private async write(): Promise<void> {
+    const file: ChangeLogFile = {
+      version: 1,
+      snapshots: Object.fromEntries(this.snapshots),
+      changes: this.changes
+    };
+
+    await fs.mkdir(path.dirname(this.logFile), { recursive: true });
+    const tempFile = `${this.logFile}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(file, null, 2), 'utf-8');
+    await fs.rename(tempFile, this.logFile);
+  }
+}
@@ -0,0 +1,143 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EmoteImageSize, EmoteSource, Fetcher } from '../providers/emote-provider';
+import type { EmoteService } from './emote-service';
+
+/**
+ * A cached emote image
+ */
+export interface EmoteImage {
+  body: Uint8Array<ArrayBuffer>;
+  contentType: string;
+  etag: string;
+}
+
+interface ImageMeta {
+  contentType: string;
+  etag: string;
+  fetchedAt: number;
+}
+
+/**
+ * Image types served from the dashboard's origin; SVG is left out since it can carry scripts
+ */
+const IMAGE_TYPES = ['image/webp', 'image/avif', 'image/png', 'image/gif', 'image/jpeg'];
+
+/**
+ * Keeps emote images on disk so the dashboard can serve them itself
+ * An emote's image never changes for a given ID and size, so cached images are kept for good and
+ * only fetched from the provider's CDN on a miss. Concurrent misses for the same image share one fetch.
+ */
+export class EmoteImageCache {
+  private fetches: Map<string, Promise<EmoteImage | null>> = new Map();
+
+  constructor(
+    private emoteService: EmoteService,
+    private fetcher: Fetcher = url => fetch(url),
+    private cacheDir: string = './data/emotes/images'
+  ) {}
+
+  /**
+   * Gets an emote image, fetching it if it isn't cached yet
+   * @param source - The emote's provider
+   * @param emoteId - The emote ID; only letters, digits, `_` and `-`
+   * @param size - The image size
+   * @returns The image, or null if it couldn't be fetched
+   */
+  async getImage(source: EmoteSource, emoteId: string, size: EmoteImageSize): Promise<EmoteImage | null> {
+    if (!/^[\w-]+$/.test(emoteId)) {
+      return null;
+    }
+
+    const file = path.join(this.cacheDir, source, `${emoteId}-${size}`);
+    const cached = await this.read(file);
+    if (cached) {
+      return cached;
+    }
+
+    let pending = this.fetches.get(file);
+    if (!pending) {
+      pending = this.download(source, emoteId, size, file).finally(() => this.fetches.delete(file));
+      this.fetches.set(file, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Reads an image and its metadata from disk
+   * @returns The image, or null if it isn't cached
+   */
+  private async read(file: string): Promise<EmoteImage | null> {
+    try {
+      const meta = JSON.parse(await fs.readFile(`${file}.json`, 'utf-8')) as ImageMeta;
+      const body = new Uint8Array(await fs.readFile(file));
+      return { body, contentType: meta.contentType, etag: meta.etag };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`[EmoteImageCache] Error reading ${file}, fetching it again:`, error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Fetches an image from the provider's CDN and stores it
+   */
+  private async download(source: EmoteSource, emoteId: string, size: EmoteImageSize, file: string): Promise<EmoteImage | null> {
+    const url = this.emoteService.getEmoteImageUrl(source, emoteId, size);
+    if (!url) {
+      return null;
+    }
+
+    let contentType: string;
+    let body: Uint8Array<ArrayBuffer>;
+    try {
+      const response = await this.fetcher(url);
+      if (!response.ok) {
+        if (response.status !== 404) {
+          console.warn(`[EmoteImageCache] ${url} returned ${response.status}`);
+        }
+        return null;
+      }
+
+      contentType = response.headers.get('Content-Type')?.split(';')[0]!.trim().toLowerCase() ?? '';
+      if (!IMAGE_TYPES.includes(contentType)) {
+        console.warn(`[EmoteImageCache] ${url} returned unexpected content type "${contentType}"`);
+        return null;
+      }
+
+      // The connection can still drop while the body is read
+      body = new Uint8Array(await response.arrayBuffer());
+    } catch (error) {
+      console.warn(`[EmoteImageCache] Could not fetch ${url}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+    const image: EmoteImage = {
+      body,
+      contentType,
+      etag: `"${createHash('sha1').update(body).digest('hex')}"`
+    };
+
+    try {
+      await this.write(file, image);
+    } catch (error) {
+      // Still serve the image; it's fetched again next time
+      console.error(`[EmoteImageCache] Error caching ${file}:`, error);
+    }
+    return image;
+  }
+
+  /**
+   * Writes an image, then its metadata, each through a temp file so a crash never leaves a partial entry
+   */
+  private async write(file: string, image: EmoteImage): Promise<void> {
+    const meta: ImageMeta = { contentType: image.contentType, etag: image.etag, fetchedAt: Date.now() };
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(`${file}.tmp`, image.body);
+    await fs.rename(`${file}.tmp`, file);
+    await fs.writeFile(`${file}.json.tmp`, JSON.stringify(meta), 'utf-8');
+    await fs.rename(`${file}.json.tmp`, `${file}.json`);
+  }
+}
@@ -1,158 +1,788 @@
+import { twitchEmoteImageUrl } from '../handlers/twitch-emotes';
+import {
+  createEmoteProviders,
+  type EmoteImageSize,
+  type EmoteProvider,
+  type EmoteProviderName,
+  type EmoteSource,
+  type ProviderEmote
+} from '../providers/emote-provider';
+import {
+  SevenTVProvider,
+  type SevenTVEmote,
+  type SevenTVEmoteSet
+} from '../providers/seventv-provider';
+import type { EmoteCacheStore } from './emote-cache-store';
+import type { EmoteChangeLog } from './emote-change-log';
+import { CircuitOpenError } from './upstream-guard';
 import type { UserService } from './user-service';
 
 /**
- * Represents a 7TV emote
+ * Emote metadata for tracking
  */
-export interface SevenTVEmote {
+export interface EmoteMetadata {
   id: string;
   name: string;
-  flags: number;
-  timestamp: number;
-  actor_id: string | null;
-  data: {
-    id: string;
-    name: string;
-    flags: number;
-    lifecycle: number;
-    state: string[];
-    listed: boolean;
-    animated: boolean;
-    owner: {
-      id: string;
-      username: string;
-      display_name: string;
-      avatar_url: string;
-    };
-  };
+  imageUrl: string;
+  animated: boolean;
+  /** When the emote was added to the channel (ms timestamp), or null if the provider doesn't report it */
+  addedAt: number | null;
+  /** When the bot first saw the emote, set where addedAt is null */
+  firstSeenAt?: number;
+  provider: EmoteProviderName;
+  /** Whether the emote is from a provider's global emote set */
+  global?: boolean;
+  /** Providers with a same-named emote that this one takes precedence over */
+  shadows?: EmoteProviderName[];
 }
 
 /**
- * 7TV API response structure
+ * A channel's 7TV user and active emote set
  */
-interface SevenTVResponse {
-  id: string;
-  platform: string;
-  username: string;
-  display_name: string;
-  linked_at: number;
-  emote_capacity: number;
-  emote_set_id: string | null;
-  emote_set: {
-    id: string;
-    name: string;
-    flags: number;
-    capacity: number;
-    emotes: SevenTVEmote[];
-  } | null;
-  user: {
-    id: string;
-    username: string;
-    display_name: string;
-    avatar_url: string;
-  };
+export interface ChannelEmoteSet {
+  channel: string;
+  /** 7TV user ID */
+  userId: string;
+  emoteSetId: string | null;
 }
 
 /**
- * Emote metadata for tracking
+ * Changes to an emote set, as received from the 7TV EventAPI
  */
-export interface EmoteMetadata {
-  id: string;
-  name: string;
-  imageUrl: string;
-  animated: boolean;
+export interface EmoteSetPatch {
+  /** Emotes added to the set */
+  pushed: SevenTVEmote[];
+  /** IDs of emotes removed from the set */
+  pulled: string[];
+  /** Emotes whose alias changed */
+  updated: SevenTVEmote[];
+  /** 7TV user who made the change */
+  actorId?: string | null;
+}
+
+/**
+ * Emotes restored from disk that haven't been fetched again yet
+ */
+export interface StaleEmoteList {
+  /** When the restored emotes were fetched */
+  fetchedAt: number;
+  /** Providers whose emotes are still the restored ones */
+  providers: EmoteProviderName[];
 }
 
 /**
- * Service for fetching and managing 7TV emotes
+ * Emote cache counters since startup, for channel and global emote lookups
+ */
+export interface EmoteCacheStats {
+  /** Lookups answered from a fresh cache */
+  hits: number;
+  /** Lookups answered from an expired cache while it is refreshed in the background */
+  staleHits: number;
+  /** Lookups that waited for a fetch because nothing was cached */
+  misses: number;
+  /** Background refreshes started by stale hits */
+  refreshes: number;
+  /** Lookups and refreshes that joined a fetch already in progress */
+  coalesced: number;
+  /** Fetches from the providers */
+  fetches: number;
+}
+
+/**
+ * A channel's emote cache entry
+ */
+export interface ChannelCacheStatus {
+  channel: string;
+  emotes: number;
+  /** When the cached emotes were fetched, or null if they were restored from disk */
+  cachedAt: number | null;
+  /** Whether the cache has expired */
+  expired: boolean;
+  /** Whether a fetch is in progress */
+  fetching: boolean;
+}
+
+/**
+ * Result of a channel's last request to an upstream source
+ * The `twitch` source is the channel ID lookup every emote fetch starts with.
+ */
+export interface ChannelUpstreamStatus {
+  source: EmoteSource;
+  ok: boolean;
+  error: string | null;
+  checkedAt: number;
+  /** When the source started failing for the channel */
+  failingSince: number | null;
+}
+
+/**
+ * Called with a channel's emote metadata (keyed by emote name) whenever it is fetched
+ */
+export type EmotesLoadedListener = (channelName: string, emotes: Map<string, EmoteMetadata>) => void;
+
+/**
+ * Called when a channel stops being tracked
+ */
+export type ChannelRemovedListener = (channelName: string) => void;
+
+/**
+ * Service for fetching and managing 7TV, BTTV and FFZ emotes
+ * Providers are listed in order of precedence: when two share an emote name, the
+ * earlier provider's emote is used. Channel emotes always take precedence over global ones.
  */
 export class EmoteService {
   private emoteCache: Map<string, Set<string>> = new Map();
   private emoteMetadataCache: Map<string, Map<string, EmoteMetadata>> = new Map();
   private cacheTimestamps: Map<string, number> = new Map();
+  /** Each provider's emotes per channel, merged into the caches above */
+  private providerEmotes: Map<string, Map<EmoteProviderName, ProviderEmote[]>> = new Map();
+  private channelSets: Map<string, { userId: string; emoteSet: SevenTVEmoteSet | null }> = new Map();
+  /** Channels whose emotes were restored from disk, until every provider has been fetched again */
+  private staleEmoteLists: Map<string, { fetchedAt: number; providers: Set<EmoteProviderName> }> = new Map();
+  private liveEmoteSets: ReadonlySet<string> = new Set();
+  private globalEmotes: Set<string> = new Set();
+  private globalEmoteMetadata: Map<string, EmoteMetadata> = new Map();
+  private globalProviderEmotes: Map<EmoteProviderName, ProviderEmote[]> = new Map();
+  private globalTimestamp = 0;
+  private globalFetch: Promise<Set<string>> | null = null;
+  /** Fetches in progress per channel, shared by everyone who needs the channel's emotes */
+  private channelFetches: Map<string, { refreshLive: boolean; promise: Promise<Set<string>> }> = new Map();
+  private cacheStats: EmoteCacheStats = { hits: 0, staleHits: 0, misses: 0, refreshes: 0, coalesced: 0, fetches: 0 };
+  private upstreamStatus: Map<string, Map<EmoteSource, ChannelUpstreamStatus>> = new Map();
+  /** Channels whose last fetch failed partly or entirely, with when to try again */
+  private retryAt: Map<string, number> = new Map();
+  private loadedListeners: EmotesLoadedListener[] = [];
+  private removedListeners: ChannelRemovedListener[] = [];
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+  private readonly RETRY_AFTER_FAILURE = 30 * 1000;
 
-  constructor(private userService: UserService) {}
+  constructor(
+    private userService: UserService,
+    private changeLog: EmoteChangeLog | null = null,
+    private providers: EmoteProvider[] = createEmoteProviders(),
+    private cacheStore: EmoteCacheStore | null = null
+  ) {}
 
   /**
-   * Fetches emotes for a channel from 7TV API
+   * Restores the emotes persisted by the last run
+   * They are used until each channel's first fetch succeeds, so unused emotes are
+   * listed even if the providers can't be reached right after a restart.
+   */
+  async loadCachedEmotes(): Promise<void> {
+    if (!this.cacheStore) return;
+
+    for (const [channel, cached] of await this.cacheStore.load()) {
+      // A fetch that already finished is newer
+      if (this.providerEmotes.has(channel)) continue;
+
+      const perProvider = new Map<EmoteProviderName, ProviderEmote[]>();
+      for (const provider of this.providers) {
+        const emotes = cached.providers[provider.name];
+        if (emotes) perProvider.set(provider.name, this.stampFirstSeen(emotes, undefined));
+      }
+
+      this.providerEmotes.set(channel, perProvider);
+      this.staleEmoteLists.set(channel, { fetchedAt: cached.fetchedAt, providers: new Set(perProvider.keys()) });
+      this.cacheChannelEmotes(channel);
+      // Expire the restored emotes right away so the next lookup fetches fresh ones
+      this.cacheTimestamps.delete(channel);
+    }
+  }
+
+  /**
+   * Fetches emotes for a channel from all providers
+   * An expired cache is returned right away while one background fetch refreshes it;
+   * only a channel without cached emotes waits for the fetch.
    * @param channelName - The Twitch channel name
    * @returns Set of emote names
    */
   async fetchChannelEmotes(channelName: string): Promise<Set<string>> {
-    // Check cache first
-    const cached = this.getCachedEmotes(channelName);
+    const channel = channelName.toLowerCase();
+    const cached = this.emoteCache.get(channel);
+
+    if (cached && !this.isChannelExpired(channel)) {
+      this.cacheStats.hits++;
+      return cached;
+    }
+
     if (cached) {
+      this.cacheStats.staleHits++;
+      if (!this.channelFetches.has(channel)) {
+        this.cacheStats.refreshes++;
+        this.loadChannelEmotesOnce(channel, false);
+      }
       return cached;
     }
 
+    this.cacheStats.misses++;
+    // Don't wait on every message for a channel whose fetch just failed
+    const retryAt = this.retryAt.get(channel);
+    if (retryAt !== undefined && Date.now() < retryAt) {
+      return new Set();
+    }
+    return this.loadChannelEmotesOnce(channel, false);
+  }
+
+  /**
+   * Fetches a channel's emotes even if the cache is still valid
+   */
+  async refreshChannelEmotes(channelName: string): Promise<Set<string>> {
+    return this.loadChannelEmotesOnce(channelName.toLowerCase(), true);
+  }
+
+  /**
+   * Starts a channel fetch, or joins the one in progress
+   * A fetch that skips the live 7TV set can't stand in for a full refresh, so a refresh
+   * requested during one runs after it.
+   */
+  private loadChannelEmotesOnce(channel: string, refreshLive: boolean): Promise<Set<string>> {
+    const current = this.channelFetches.get(channel);
+    if (current && (current.refreshLive || !refreshLive)) {
+      this.cacheStats.coalesced++;
+      return current.promise;
+    }
+
+    const promise: Promise<Set<string>> = (current?.promise ?? Promise.resolve())
+      .then(() => {
+        this.cacheStats.fetches++;
+        return this.loadChannelEmotes(channel, refreshLive);
+      })
+      .finally(() => {
+        if (this.channelFetches.get(channel)?.promise === promise) {
+          this.channelFetches.delete(channel);
+        }
+      });
+    this.channelFetches.set(channel, { refreshLive, promise });
+    return promise;
+  }
+
+  /**
+   * Fetches a channel's emotes from all providers and caches them
+   * A provider that fails keeps its previously fetched emotes until the next refresh.
+   * @param refreshLive - Also fetch a 7TV emote set that is kept up to date by live updates
+   */
+  private async loadChannelEmotes(channelName: string, refreshLive: boolean): Promise<Set<string>> {
+    const channel = channelName.toLowerCase();
+
     try {
       // Get channel ID from username
-      const channelId = await this.userService.getUserIdByName(channelName);
+      let channelId: string | null;
+      try {
+        channelId = await this.userService.resolveUserId(channelName);
+        this.recordUpstream(channel, 'twitch', null);
+      } catch (error) {
+        this.logFetchError(`Error looking up channel ID for ${channelName}`, error);
+        this.recordUpstream(channel, 'twitch', error);
+        this.retryAt.set(channel, Date.now() + this.RETRY_AFTER_FAILURE);
+        return this.emoteCache.get(channel) ?? new Set();
+      }
       if (!channelId) {
         console.error(`[EmoteService] Could not find channel ID for ${channelName}`);
-        return new Set();
+        return this.emoteCache.get(channel) ?? new Set();
       }
 
-      // Fetch from 7TV API
-      const response = await fetch(`https://7tv.io/v3/users/twitch/${channelId}`);
+      const previous = this.providerEmotes.get(channel);
+      const perProvider = new Map<EmoteProviderName, ProviderEmote[]>();
+      const fetched = new Set<EmoteProviderName>();
+      let failed = false;
 
-      if (!response.ok) {
-        if (response.status === 404) {
-          console.log(`[EmoteService] Channel ${channelName} has no 7TV emotes`);
-          return new Set();
+      await Promise.all(this.providers.map(async provider => {
+        const kept = previous?.get(provider.name);
+        if (provider instanceof SevenTVProvider && kept && !refreshLive && this.isLive(channel)) {
+          perProvider.set(provider.name, kept);
+          return;
         }
-        throw new Error(`7TV API returned ${response.status}`);
+
+        try {
+          const emotes = await this.fetchProviderEmotes(provider, channel, channelId);
+          fetched.add(provider.name);
+          this.recordUpstream(channel, provider.name, null);
+          if (emotes) {
+            perProvider.set(provider.name, this.stampFirstSeen(emotes, kept));
+          } else {
+            console.log(`[EmoteService] Channel ${channelName} has no ${provider.name.toUpperCase()} emotes`);
+          }
+        } catch (error) {
+          this.logFetchError(`Error fetching ${provider.name.toUpperCase()} emotes for ${channelName}`, error);
+          this.recordUpstream(channel, provider.name, error);
+          failed = true;
+          if (kept) perProvider.set(provider.name, kept);
+        }
+      }));
+
+      // Failed providers are retried sooner than the cache expires
+      if (failed) {
+        this.retryAt.set(channel, Date.now() + this.RETRY_AFTER_FAILURE);
+      } else {
+        this.retryAt.delete(channel);
+      }
+
+      this.providerEmotes.set(channel, perProvider);
+      const emoteNames = this.cacheChannelEmotes(channel);
+
+      const counts = Array.from(perProvider, ([name, emotes]) => `${emotes.length} ${name.toUpperCase()}`);
+      console.log(`[EmoteService] Loaded ${emoteNames.size} emotes for ${channelName}${counts.length ? ` (${counts.join(', ')})` : ''}`);
+
+      const stale = this.staleEmoteLists.get(channel);
+      if (stale) {
+        for (const name of fetched) stale.providers.delete(name);
+        if (stale.providers.size === 0) this.staleEmoteLists.delete(channel);
+      }
+      if (fetched.size > 0) {
+        this.persistChannelEmotes(channel);
       }
 
-      const data = await response.json() as SevenTVResponse;
+      return emoteNames;
+    } catch (error) {
+      console.error(`[EmoteService] Error fetching emotes for ${channelName}:`, error);
+      return this.emoteCache.get(channel) ?? new Set();
+    }
+  }
+
+  /**
+   * Records the outcome of a channel's request to an upstream source
+   * @param error - The error, or null if the request succeeded
+   */
+  private recordUpstream(channel: string, source: EmoteSource, error: unknown): void {
+    let statuses = this.upstreamStatus.get(channel);
+    if (!statuses) {
+      statuses = new Map();
+      this.upstreamStatus.set(channel, statuses);
+    }
+
+    const now = Date.now();
+    const previous = statuses.get(source);
+    statuses.set(source, {
+      source,
+      ok: error === null,
+      error: error === null ? null : error instanceof Error ? error.message : String(error),
+      checkedAt: now,
+      failingSince: error === null ? null : previous?.failingSince ?? now
+    });
+  }
+
+  /**
+   * Logs a failed fetch; requests skipped by an open circuit only get a one-line warning
+   */
+  private logFetchError(message: string, error: unknown): void {
+    if (error instanceof CircuitOpenError) {
+      console.warn(`[EmoteService] ${message}: ${error.message}`);
+    } else {
+      console.error(`[EmoteService] ${message}:`, error);
+    }
+  }
+
+  /**
+   * Records when emotes without an addedAt date were first seen, keeping the date from earlier fetches
+   * The dates are saved with the emotes, so they survive restarts.
+   * @param previous - The provider's emotes from the last fetch
+   */
+  private stampFirstSeen(emotes: ProviderEmote[], previous: ProviderEmote[] | undefined): ProviderEmote[] {
+    const now = Date.now();
+    const seen = new Map(previous?.map(emote => [emote.id, emote.firstSeenAt]));
+    return emotes.map(emote => emote.addedAt !== undefined || emote.firstSeenAt !== undefined
+      ? emote
+      : { ...emote, firstSeenAt: seen.get(emote.id) ?? now });
+  }
 
-      // Extract emote names and metadata
-      const emoteNames = new Set<string>();
-      const emoteMetadata = new Map<string, EmoteMetadata>();
+  /**
+   * Saves a channel's emotes for the next startup
+   * Emotes are only saved once none of them are restored ones, so the saved
+   * fetch time stays accurate.
+   */
+  private persistChannelEmotes(channel: string): void {
+    const perProvider = this.providerEmotes.get(channel);
+    if (!this.cacheStore || !perProvider || this.staleEmoteLists.has(channel)) return;
 
-      if (data.emote_set?.emotes) {
-        for (const emote of data.emote_set.emotes) {
-          emoteNames.add(emote.name);
+    this.cacheStore.save(channel, {
+      fetchedAt: Date.now(),
+      providers: Object.fromEntries(perProvider)
+    });
+  }
+
+  /**
+   * Fetches a channel's emotes from one provider
+   * For 7TV the active emote set is also kept for live updates and the change log.
+   * @returns The emotes, or null if the channel has no account with the provider
+   */
+  private async fetchProviderEmotes(
+    provider: EmoteProvider,
+    channel: string,
+    channelId: string
+  ): Promise<ProviderEmote[] | null> {
+    if (!(provider instanceof SevenTVProvider)) {
+      return provider.fetchChannelEmotes(channelId);
+    }
+
+    const user = await provider.fetchUser(channelId);
+    if (!user) {
+      this.channelSets.delete(channel);
+      return null;
+    }
 
-          // Store metadata for this emote
-          emoteMetadata.set(emote.name, {
-            id: emote.data.id,
-            name: emote.name,
-            imageUrl: `https://cdn.7tv.app/emote/${emote.data.id}/1x.webp`,
-            animated: emote.data.animated
-          });
+    this.channelSets.set(channel, { userId: user.user.id, emoteSet: user.emote_set });
+    await this.recordEmoteSetChanges(channel, user.emote_set);
+
+    return (user.emote_set?.emotes ?? []).map(emote => provider.toProviderEmote(emote));
+  }
+
+  /**
+   * Applies live changes to every channel using a 7TV emote set
+   * @param emoteSetId - The changed emote set
+   * @param patch - The added, removed and renamed emotes
+   * @returns Whether a tracked channel uses the emote set
+   */
+  async patchEmoteSet(emoteSetId: string, patch: EmoteSetPatch): Promise<boolean> {
+    const sevenTV = this.providers.find(provider => provider instanceof SevenTVProvider);
+    if (!sevenTV) return false;
+    let matched = false;
+
+    channels: for (const [channel, entry] of this.channelSets) {
+      const emoteSet = entry.emoteSet;
+      if (emoteSet?.id !== emoteSetId) continue;
+      matched = true;
+
+      const emotes = new Map(emoteSet.emotes.map(emote => [emote.id, emote]));
+      for (const emoteId of patch.pulled) {
+        emotes.delete(emoteId);
+      }
+      for (const emote of [...patch.updated, ...patch.pushed]) {
+        const data = emote.data ?? emotes.get(emote.id)?.data;
+        if (!data) {
+          // Without the emote's details the set has to be fetched again
+          await this.refreshChannelEmotes(channel);
+          continue channels;
         }
+        emotes.set(emote.id, { ...emote, data });
       }
 
-      console.log(`[EmoteService] Loaded ${emoteNames.size} emotes for ${channelName}`);
+      entry.emoteSet = { ...emoteSet, emotes: Array.from(emotes.values()) };
+      await this.recordEmoteSetChanges(channel, entry.emoteSet, patch.actorId);
 
-      // Cache the results
-      this.emoteCache.set(channelName.toLowerCase(), emoteNames);
-      this.emoteMetadataCache.set(channelName.toLowerCase(), emoteMetadata);
-      this.cacheTimestamps.set(channelName.toLowerCase(), Date.now());
+      const perProvider = this.providerEmotes.get(channel) ?? new Map<EmoteProviderName, ProviderEmote[]>();
+      perProvider.set('7tv', entry.emoteSet.emotes.map(emote => sevenTV.toProviderEmote(emote)));
+      this.providerEmotes.set(channel, perProvider);
+      this.cacheChannelEmotes(channel);
+      this.persistChannelEmotes(channel);
 
-      return emoteNames;
+      console.log(
+        `[EmoteService] Live update for ${channel}: ` +
+        `${patch.pushed.length} added, ${patch.pulled.length} removed, ${patch.updated.length} updated`
+      );
+    }
+
+    return matched;
+  }
+
+  /**
+   * Records a channel's emote set in the change log
+   * A change log failure is logged and never fails the emote fetch or patch.
+   */
+  private async recordEmoteSetChanges(channel: string, emoteSet: SevenTVEmoteSet | null, actorId?: string | null): Promise<void> {
+    if (!this.changeLog) return;
+    try {
+      await this.changeLog.recordEmoteSet(channel, emoteSet, actorId);
     } catch (error) {
-      console.error(`[EmoteService] Error fetching emotes for ${channelName}:`, error);
-      return new Set();
+      console.error(`[EmoteService] Error recording emote set changes for ${channel}:`, error);
     }
   }
 
   /**
-   * Gets cached emotes if still valid
+   * Merges a channel's provider emotes into the name and metadata caches and notifies listeners
+   * @returns Set of emote names
    */
-  private getCachedEmotes(channelName: string): Set<string> | null {
-    const cached = this.emoteCache.get(channelName.toLowerCase());
-    const timestamp = this.cacheTimestamps.get(channelName.toLowerCase());
+  private cacheChannelEmotes(channel: string): Set<string> {
+    const emoteMetadata = this.mergeProviderEmotes(this.providerEmotes.get(channel));
+    const emoteNames = new Set(emoteMetadata.keys());
+
+    // Cache the results
+    this.emoteCache.set(channel, emoteNames);
+    this.emoteMetadataCache.set(channel, emoteMetadata);
+    this.cacheTimestamps.set(channel, Date.now());
+
+    for (const listener of this.loadedListeners) {
+      listener(channel, emoteMetadata);
+    }
+
+    return emoteNames;
+  }
+
+  /**
+   * Merges emotes of all providers by name, in order of provider precedence
+   * @param global - Whether the emotes are from global sets
+   * @returns Emote metadata keyed by emote name
+   */
+  private mergeProviderEmotes(
+    perProvider: Map<EmoteProviderName, ProviderEmote[]> | undefined,
+    global?: boolean
+  ): Map<string, EmoteMetadata> {
+    const emoteMetadata = new Map<string, EmoteMetadata>();
+
+    for (const provider of this.providers) {
+      for (const emote of perProvider?.get(provider.name) ?? []) {
+        const existing = emoteMetadata.get(emote.name);
+        if (existing) {
+          if (existing.provider !== provider.name && !existing.shadows?.includes(provider.name)) {
+            (existing.shadows ??= []).push(provider.name);
+          }
+          continue;
+        }
 
-    if (cached && timestamp) {
-      const age = Date.now() - timestamp;
-      if (age < this.CACHE_DURATION) {
-        return cached;
+        emoteMetadata.set(emote.name, {
+          id: emote.id,
+          name: emote.name,
+          imageUrl: emote.imageUrl,
+          animated: emote.animated,
+          addedAt: emote.addedAt ?? null,
+          ...(emote.addedAt === undefined ? { firstSeenAt: emote.firstSeenAt ?? Date.now() } : {}),
+          provider: provider.name,
+          ...(global ? { global } : {})
+        });
       }
     }
 
-    return null;
+    return emoteMetadata;
+  }
+
+  /**
+   * Gets the names of all providers' global emotes (from cache or fetch)
+   * Like channel emotes, expired global emotes are returned while one background fetch refreshes them.
+   */
+  async getGlobalEmotes(): Promise<Set<string>> {
+    if (!this.isExpired(this.globalTimestamp)) {
+      this.cacheStats.hits++;
+      return this.globalEmotes;
+    }
+
+    const loaded = this.globalTimestamp > 0;
+    if (this.globalFetch) {
+      this.cacheStats.coalesced++;
+    } else {
+      if (loaded) this.cacheStats.refreshes++;
+      this.cacheStats.fetches++;
+      this.globalFetch = this.fetchGlobalEmotes().finally(() => {
+        this.globalFetch = null;
+      });
+    }
+
+    if (loaded) {
+      this.cacheStats.staleHits++;
+      return this.globalEmotes;
+    }
+
+    this.cacheStats.misses++;
+    return this.globalFetch;
+  }
+
+  /**
+   * Fetches the global emote sets of all providers
+   * A provider that fails keeps its previous set until the next cache expiry.
+   */
+  private async fetchGlobalEmotes(): Promise<Set<string>> {
+    await Promise.all(this.providers.map(async provider => {
+      try {
+        this.globalProviderEmotes.set(
+          provider.name,
+          this.stampFirstSeen(await provider.fetchGlobalEmotes(), this.globalProviderEmotes.get(provider.name))
+        );
+      } catch (error) {
+        console.error(`[EmoteService] Error fetching ${provider.name.toUpperCase()} global emotes:`, error);
+      }
+    }));
+
+    this.globalEmoteMetadata = this.mergeProviderEmotes(this.globalProviderEmotes, true);
+    this.globalEmotes = new Set(this.globalEmoteMetadata.keys());
+    this.globalTimestamp = Date.now();
+    console.log(`[EmoteService] Loaded ${this.globalEmotes.size} global emotes`);
+
+    return this.globalEmotes;
+  }
+
+  /**
+   * Gets metadata for a global emote
+   * @returns Emote metadata or null if not found
+   */
+  getGlobalEmoteMetadata(emoteName: string): EmoteMetadata | null {
+    return this.globalEmoteMetadata.get(emoteName) ?? null;
+  }
+
+  /**
+   * Gets the CDN URL of an emote image
+   * @returns The URL, or null if the emote's provider isn't enabled
+   */
+  getEmoteImageUrl(source: EmoteSource, emoteId: string, size: EmoteImageSize): string | null {
+    if (source === 'twitch') {
+      return twitchEmoteImageUrl(emoteId, size);
+    }
+
+    const provider = this.providers.find(p => p.name === source);
+    return provider ? provider.getImageUrl(emoteId, size, this.isAnimated(source, emoteId)) : null;
+  }
+
+  /**
+   * Whether a loaded emote is animated; emotes that aren't loaded count as static
+   */
+  private isAnimated(provider: EmoteProviderName, emoteId: string): boolean {
+    return this.findProviderEmote(provider, emoteId)?.animated ?? false;
+  }
+
+  /**
+   * Whether an emote is in a loaded channel or global set
+   */
+  hasEmote(provider: EmoteProviderName, emoteId: string): boolean {
+    return this.findProviderEmote(provider, emoteId) !== undefined;
+  }
+
+  /**
+   * Finds a loaded emote by provider and ID in the global and channel sets
+   */
+  private findProviderEmote(provider: EmoteProviderName, emoteId: string): ProviderEmote | undefined {
+    const lists = [
+      this.globalProviderEmotes.get(provider),
+      ...Array.from(this.providerEmotes.values(), emotes => emotes.get(provider))
+    ];
+    for (const emotes of lists) {
+      const emote = emotes?.find(emote => emote.id === emoteId);
+      if (emote) return emote;
+    }
+    return undefined;
+  }
+
+  /**
+   * Gets the enabled providers, in order of precedence
+   */
+  getProviderNames(): EmoteProviderName[] {
+    return this.providers.map(provider => provider.name);
+  }
+
+  /**
+   * Gets the 7TV user and active emote set of every channel with a 7TV account
+   */
+  getChannelEmoteSets(): ChannelEmoteSet[] {
+    return Array.from(this.channelSets, ([channel, entry]) => ({
+      channel,
+      userId: entry.userId,
+      emoteSetId: entry.emoteSet?.id ?? null
+    }));
+  }
+
+  /**
+   * Sets the emote sets kept up to date by live updates
+   * They aren't re-fetched when their channel's cache expires; all others are polled every CACHE_DURATION.
+   */
+  setLiveEmoteSets(emoteSetIds: ReadonlySet<string>): void {
+    this.liveEmoteSets = emoteSetIds;
+  }
+
+  /**
+   * Whether a channel's 7TV emote set is kept up to date by live updates
+   */
+  private isLive(channel: string): boolean {
+    const emoteSetId = this.channelSets.get(channel)?.emoteSet?.id;
+    return emoteSetId !== undefined && this.liveEmoteSets.has(emoteSetId);
+  }
+
+  /**
+   * Gets a channel's emotes restored from disk, if they haven't all been fetched again yet
+   */
+  getStaleEmoteList(channelName: string): StaleEmoteList | null {
+    const stale = this.staleEmoteLists.get(channelName.toLowerCase());
+    return stale ? { fetchedAt: stale.fetchedAt, providers: Array.from(stale.providers) } : null;
+  }
+
+  /**
+   * Gets the emote set change log, if changes are recorded
+   */
+  getChangeLog(): EmoteChangeLog | null {
+    return this.changeLog;
+  }
+
+  /**
+   * Registers a listener for freshly fetched emote sets
+   */
+  onEmotesLoaded(listener: EmotesLoadedListener): void {
+    this.loadedListeners.push(listener);
+  }
+
+  /**
+   * Registers a listener for channels that are no longer tracked
+   */
+  onChannelRemoved(listener: ChannelRemovedListener): void {
+    this.removedListeners.push(listener);
+  }
+
+  /**
+   * Drops a channel's emotes once it is no longer tracked
+   * The copy persisted to disk is kept, in case the channel is added again.
+   */
+  async removeChannel(channelName: string): Promise<void> {
+    const channel = channelName.toLowerCase();
+
+    // Let a fetch in progress finish first so it doesn't bring the channel back
+    await this.channelFetches.get(channel)?.promise.catch(() => undefined);
+
+    const caches: Map<string, unknown>[] = [
+      this.emoteCache,
+      this.emoteMetadataCache,
+      this.cacheTimestamps,
+      this.providerEmotes,
+      this.channelSets,
+      this.staleEmoteLists,
+      this.upstreamStatus,
+      this.retryAt
+    ];
+    for (const cache of caches) {
+      cache.delete(channel);
+    }
+
+    for (const listener of this.removedListeners) {
+      listener(channel);
+    }
+  }
+
+  /**
+   * Whether a cache entry fetched at the given time needs a refresh
+   */
+  private isExpired(timestamp: number | undefined): boolean {
+    return !timestamp || Date.now() - timestamp >= this.CACHE_DURATION;
+  }
+
+  /**
+   * Whether a channel's emotes need a refresh, either because the cache expired or a failed fetch is due for a retry
+   */
+  private isChannelExpired(channel: string): boolean {
+    const retryAt = this.retryAt.get(channel);
+    return this.isExpired(this.cacheTimestamps.get(channel)) || (retryAt !== undefined && Date.now() >= retryAt);
+  }
+
+  /**
+   * Gets the result of a channel's last request to each upstream source
+   */
+  getUpstreamStatus(channelName: string): ChannelUpstreamStatus[] {
+    return Array.from(this.upstreamStatus.get(channelName.toLowerCase())?.values() ?? []);
+  }
+
+  /**
+   * Gets the emote cache counters since startup
+   */
+  getCacheStats(): EmoteCacheStats {
+    return { ...this.cacheStats };
+  }
+
+  /**
+   * Gets the cache entry of every channel with cached emotes
+   */
+  getChannelCacheStatus(): ChannelCacheStatus[] {
+    return Array.from(this.emoteCache, ([channel, emotes]) => {
+      const cachedAt = this.cacheTimestamps.get(channel) ?? null;
+      return {
+        channel,
+        emotes: emotes.size,
+        cachedAt,
+        expired: this.isChannelExpired(channel),
+        fetching: this.channelFetches.has(channel)
+      };
+    });
   }
 
   /**
@@ -163,22 +793,22 @@ export class EmoteService {
   }
 
   /**
-   * Finds which emotes from a set are present in a message (unique only)
+   * Counts how many times each emote from a set occurs in a message
    * @param message - The chat message text
    * @param emotes - Set of emote names to check
-   * @returns Array of unique emote names found in the message
+   * @returns Map of emote name to number of occurrences
    */
-  findEmotesInMessage(message: string, emotes: Set<string>): string[] {
-    const found = new Set<string>();
+  countEmotesInMessage(message: string, emotes: Set<string>): Map<string, number> {
+    const counts = new Map<string, number>();
     const words = message.split(/\s+/);
 
     for (const word of words) {
       if (emotes.has(word)) {
-        found.add(word);
+        counts.set(word, (counts.get(word) ?? 0) + 1);
       }
     }
 
-    return Array.from(found);
+    return counts;
   }
 
   /**
@@ -205,7 +835,8 @@ export class EmoteService {
   async preloadChannelEmotes(channelNames: string[]): Promise<void> {
     console.log(`[EmoteService] Pre-loading emotes for ${channelNames.length} channel(s)...`);
 
-    const promises = channelNames.map(channel => this.fetchChannelEmotes(channel));
+    // Emotes restored from disk are fetched again before pre-loading completes
+    const promises = channelNames.map(channel => this.loadChannelEmotesOnce(channel.toLowerCase(), false));
     await Promise.all(promises);
 
     console.log('[EmoteService] Emote pre-loading complete');
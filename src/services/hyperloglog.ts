@@ -0,0 +1,91 @@
+/**
+ * HyperLogLog sketch for approximate distinct counting
+ * Stored sparsely as register index -> rank so small sketches stay small and
+ * serialize directly to JSON. A sketch never grows beyond REGISTER_COUNT entries.
+ */
+export type HyperLogLogSketch = Record<string, number>;
+
+// 2^10 registers gives a standard error of about 3.3%
+const PRECISION = 10;
+const REGISTER_COUNT = 1 << PRECISION;
+const ALPHA = 0.7213 / (1 + 1.079 / REGISTER_COUNT);
+
+/**
+ * Creates an empty sketch
+ */
+export function createSketch(): HyperLogLogSketch {
+  return {};
+}
+
+/**
+ * Adds a value to the sketch
+ */
+export function addToSketch(sketch: HyperLogLogSketch, value: string): void {
+  const hash = hash32(value);
+  const index = hash >>> (32 - PRECISION);
+  const remaining = (hash << PRECISION) >>> 0;
+  // Position of the first set bit in the remaining bits (1-based)
+  const rank = remaining === 0 ? 32 - PRECISION + 1 : Math.clz32(remaining) + 1;
+
+  if ((sketch[index] ?? 0) < rank) {
+    sketch[index] = rank;
+  }
+}
+
+/**
+ * Merges sketches into a new sketch representing their union
+ */
+export function mergeSketches(sketches: HyperLogLogSketch[]): HyperLogLogSketch {
+  const merged = createSketch();
+
+  for (const sketch of sketches) {
+    for (const [index, rank] of Object.entries(sketch)) {
+      if ((merged[index] ?? 0) < rank) {
+        merged[index] = rank;
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Estimates the number of distinct values added to the sketch
+ */
+export function estimateCardinality(sketch: HyperLogLogSketch): number {
+  const ranks = Object.values(sketch);
+  const emptyRegisters = REGISTER_COUNT - ranks.length;
+
+  let sum = emptyRegisters;
+  for (const rank of ranks) {
+    sum += 2 ** -rank;
+  }
+
+  const estimate = (ALPHA * REGISTER_COUNT * REGISTER_COUNT) / sum;
+
+  // Linear counting is more accurate for small cardinalities
+  if (estimate <= 2.5 * REGISTER_COUNT && emptyRegisters > 0) {
+    return Math.round(REGISTER_COUNT * Math.log(REGISTER_COUNT / emptyRegisters));
+  }
+
+  return Math.round(estimate);
+}
+
+/**
+ * 32-bit FNV-1a hash with a murmur3 finalizer for better bit distribution
+ */
+function hash32(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+
+  return hash >>> 0;
+}
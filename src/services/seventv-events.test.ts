@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test';
+import type { ServerWebSocket } from 'bun';
+import type { EmoteService, EmoteSetPatch } from './emote-service';
+import { SevenTVEventClient } from './seventv-events';
+
+interface Command {
+  op: number;
+  d: unknown;
+}
+
+/**
+ * A local EventAPI stand-in that records the commands it receives
+ */
+function createStandIn() {
+  const commands: Command[] = [];
+  const sockets: ServerWebSocket<unknown>[] = [];
+  let waiters: (() => void)[] = [];
+  const notify = () => {
+    const pending = waiters;
+    waiters = [];
+    pending.forEach(resolve => resolve());
+  };
+
+  const server = Bun.serve({
+    port: 0,
+    fetch(req, server) {
+      return server.upgrade(req) ? undefined : new Response('Upgrade required', { status: 426 });
+    },
+    websocket: {
+      open(ws) {
+        sockets.push(ws);
+        notify();
+      },
+      message(_ws, message) {
+        commands.push(JSON.parse(String(message)) as Command);
+        notify();
+      }
+    }
+  });
+
+  return {
+    url: `ws://localhost:${server.port}`,
+    commands,
+    sockets,
+    send(op: number, d: unknown, socket = sockets[sockets.length - 1]!) {
+      socket.send(JSON.stringify({ op, d }));
+    },
+    /** Resolves once the condition holds, checking after every connection and command */
+    async until(condition: () => boolean, timeoutMs = 3000) {
+      const deadline = Date.now() + timeoutMs;
+      while (!condition()) {
+        if (Date.now() > deadline) throw new Error('Timed out waiting for the client');
+        await Promise.race([
+          new Promise<void>(resolve => waiters.push(resolve)),
+          new Promise(resolve => setTimeout(resolve, 50))
+        ]);
+      }
+    },
+    stop: () => server.stop(true)
+  };
+}
+
+/**
+ * An EmoteService with one channel on one emote set, recording patches
+ */
+function createEmoteService() {
+  const patches: { emoteSetId: string; patch: EmoteSetPatch }[] = [];
+  const liveSets: string[][] = [];
+  const service = {
+    onEmotesLoaded: () => {},
+    onChannelRemoved: () => {},
+    getChannelEmoteSets: () => [{ channel: 'somechannel', userId: 'user1', emoteSetId: 'set1' }],
+    patchEmoteSet: async (emoteSetId: string, patch: EmoteSetPatch) => {
+      patches.push({ emoteSetId, patch });
+      return true;
+    },
+    refreshChannelEmotes: async () => new Set<string>(),
+    setLiveEmoteSets: (ids: ReadonlySet<string>) => {
+      liveSets.push(Array.from(ids));
+    }
+  };
+  return { service: service as unknown as EmoteService, patches, liveSets };
+}
+
+const emote = (id: string, name: string) => ({
+  id,
+  name,
+  flags: 0,
+  timestamp: 1700000000000,
+  actor_id: null,
+  data: { id, name, animated: false }
+});
+
+let standIn: ReturnType<typeof createStandIn>;
+let client: SevenTVEventClient | null = null;
+
+beforeEach(() => {
+  standIn = createStandIn();
+});
+
+afterEach(() => {
+  client?.stop();
+  client = null;
+  standIn.stop();
+});
+
+test('subscribes to the tracked channel after hello', async () => {
+  const { service, liveSets } = createEmoteService();
+  client = new SevenTVEventClient(service, standIn.url);
+  client.start();
+
+  await standIn.until(() => standIn.sockets.length === 1);
+  standIn.send(1, { heartbeat_interval: 30000, session_id: 'session1' });
+  await standIn.until(() => standIn.commands.length === 2);
+
+  expect(standIn.commands).toEqual([
+    { op: 35, d: { type: 'user.update', condition: { object_id: 'user1' } } },
+    { op: 35, d: { type: 'emote_set.update', condition: { object_id: 'set1' } } }
+  ]);
+  expect(client.isConnected()).toBe(true);
+  expect(liveSets[liveSets.length - 1]).toEqual(['set1']);
+});
+
+test('patches the emote set from a dispatch, skipping malformed values', async () => {
+  const { service, patches } = createEmoteService();
+  client = new SevenTVEventClient(service, standIn.url);
+  client.start();
+
+  await standIn.until(() => standIn.sockets.length === 1);
+  standIn.send(1, { heartbeat_interval: 30000, session_id: 'session1' });
+  await standIn.until(() => client!.isConnected());
+
+  standIn.send(0, {
+    type: 'emote_set.update',
+    body: {
+      id: 'set1',
+      actor: { id: 'actor1' },
+      pushed: [
+        { key: 'emotes', index: 0, value: emote('e1', 'Added') },
+        { key: 'emotes', index: 1, value: { broken: true } }
+      ],
+      pulled: [{ key: 'emotes', index: 2, old_value: emote('e2', 'Removed') }],
+      updated: [
+        { key: 'emotes', index: 3, old_value: emote('e3', 'Old'), value: emote('e3', 'New') },
+        { key: 'name', index: null, old_value: 'a', value: 'b' }
+      ]
+    }
+  });
+  await standIn.until(() => patches.length === 1);
+
+  const { emoteSetId, patch } = patches[0]!;
+  expect(emoteSetId).toBe('set1');
+  expect(patch.pushed.map(e => e.name)).toEqual(['Added']);
+  expect(patch.pulled).toEqual(['e2']);
+  expect(patch.updated.map(e => e.name)).toEqual(['New']);
+  expect(patch.actorId).toBe('actor1');
+});
+
+test('reconnects when asked and resumes the previous session', async () => {
+  const { service } = createEmoteService();
+  client = new SevenTVEventClient(service, standIn.url);
+  client.start();
+
+  await standIn.until(() => standIn.sockets.length === 1);
+  standIn.send(1, { heartbeat_interval: 30000, session_id: 'session1' });
+  await standIn.until(() => standIn.commands.length === 2);
+
+  standIn.send(4, {});
+  await standIn.until(() => !client!.isConnected());
+  // The first reconnect waits a second
+  await standIn.until(() => standIn.sockets.length === 2);
+
+  standIn.send(1, { heartbeat_interval: 30000, session_id: 'session2' });
+  await standIn.until(() => standIn.commands.length === 3);
+  expect(standIn.commands[2]).toEqual({ op: 34, d: { session_id: 'session1' } });
+
+  standIn.send(5, { command: 'RESUME', data: { success: true, dispatches_replayed: 1 } });
+  await standIn.until(() => client!.isConnected());
+  // A resumed session keeps its subscriptions
+  expect(standIn.commands.length).toBe(3);
+});
@@ -0,0 +1,441 @@
+import type { SevenTVEmote } from '../providers/seventv-provider';
+import type { EmoteService } from './emote-service';
+
+export const DEFAULT_EVENTS_URL = 'wss://events.7tv.io/v3';
+
+/**
+ * Live emote set update settings
+ */
+export interface SevenTVEventOptions {
+  enabled: boolean;
+  /** EventAPI WebSocket URL, e.g. a local stand-in for testing */
+  url: string;
+}
+
+/**
+ * EventAPI opcodes
+ * @see https://github.com/SevenTV/EventAPI
+ */
+const Opcode = {
+  Dispatch: 0,
+  Hello: 1,
+  Heartbeat: 2,
+  Reconnect: 4,
+  Ack: 5,
+  Error: 6,
+  EndOfStream: 7,
+  Resume: 34,
+  Subscribe: 35,
+  Unsubscribe: 36
+} as const;
+
+type Opcode = typeof Opcode[keyof typeof Opcode];
+
+interface EventMessage {
+  op: Opcode;
+  /** Shape depends on the opcode */
+  d: unknown;
+}
+
+interface HelloPayload {
+  heartbeat_interval: number;
+  session_id: string;
+  subscription_limit?: number;
+}
+
+interface AckPayload {
+  command: string;
+  data?: { success?: boolean; dispatches_replayed?: number };
+}
+
+interface DispatchPayload {
+  type: string;
+  body: ChangeMap;
+}
+
+/**
+ * Payload of Error and EndOfStream messages
+ */
+interface ClosePayload {
+  code?: number;
+  message?: string;
+}
+
+/**
+ * A changed field of an object
+ */
+interface ChangeField {
+  key: string;
+  index: number | null;
+  old_value?: unknown;
+  value?: unknown;
+}
+
+/**
+ * Body of a dispatched object change
+ */
+interface ChangeMap {
+  id: string;
+  actor?: { id: string };
+  pushed?: ChangeField[];
+  pulled?: ChangeField[];
+  updated?: ChangeField[];
+}
+
+type SubscriptionType = 'emote_set.update' | 'user.update';
+
+/**
+ * Reconnect delays grow from the first to the last entry
+ */
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000, 60000];
+
+/**
+ * Subscribes to the 7TV EventAPI and patches the EmoteService caches as soon as
+ * a tracked channel's emote set changes
+ * While the socket is down, the caches fall back to being polled every CACHE_DURATION.
+ * After a reconnect the session is resumed so missed events are replayed; if that
+ * fails, every channel is fetched again.
+ */
+export class SevenTVEventClient {
+  private socket: WebSocket | null = null;
+  private sessionId: string | null = null;
+  private subscriptionLimit = Infinity;
+  /** Subscribed conditions as `type:objectId` */
+  private subscriptions: Set<string> = new Set();
+  private heartbeatInterval = 0;
+  private heartbeatTimeout: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private ready = false;
+  private stopped = true;
+
+  constructor(
+    private emoteService: EmoteService,
+    private url: string = DEFAULT_EVENTS_URL
+  ) {
+    // Follow emote set switches, newly loaded and removed channels
+    this.emoteService.onEmotesLoaded(() => this.syncSubscriptions());
+    this.emoteService.onChannelRemoved(() => this.syncSubscriptions());
+  }
+
+  /**
+   * Connects to the EventAPI
+   */
+  start(): void {
+    this.stopped = false;
+    this.connect();
+  }
+
+  /**
+   * Disconnects and falls back to polling
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close(1000);
+    this.socket = null;
+    this.handleDisconnect();
+    this.sessionId = null;
+  }
+
+  /**
+   * Whether the client is connected and receiving live updates
+   */
+  isConnected(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * Opens a new socket
+   */
+  private connect(): void {
+    console.log(`[SevenTVEvents] Connecting to ${this.url}`);
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      console.error('[SevenTVEvents] Could not connect:', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket = socket;
+    socket.addEventListener('message', event => {
+      try {
+        this.handleMessage(JSON.parse(String(event.data)) as EventMessage);
+      } catch (error) {
+        console.error('[SevenTVEvents] Error handling message:', error);
+      }
+    });
+    socket.addEventListener('close', event => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.handleDisconnect();
+      if (!this.stopped) {
+        console.log(`[SevenTVEvents] Disconnected (${event.code}${event.reason ? `: ${event.reason}` : ''}), polling until reconnected`);
+        this.scheduleReconnect();
+      }
+    });
+    socket.addEventListener('error', () => {
+      // A close event follows, which schedules the reconnect
+      console.error('[SevenTVEvents] Socket error');
+    });
+  }
+
+  /**
+   * Handles a message from the EventAPI
+   */
+  private handleMessage(message: EventMessage): void {
+    this.resetHeartbeatTimeout();
+
+    switch (message.op) {
+      case Opcode.Hello:
+        this.handleHello(message.d as HelloPayload);
+        break;
+      case Opcode.Heartbeat:
+        break;
+      case Opcode.Ack:
+        this.handleAck(message.d as AckPayload);
+        break;
+      case Opcode.Dispatch: {
+        const dispatch = message.d as DispatchPayload;
+        this.handleDispatch(dispatch.type, dispatch.body);
+        break;
+      }
+      case Opcode.Reconnect:
+        console.log('[SevenTVEvents] Server requested a reconnect');
+        this.socket?.close(4000, 'Reconnect requested');
+        break;
+      case Opcode.Error: {
+        const error = message.d as ClosePayload | undefined;
+        console.error('[SevenTVEvents] Server error:', error?.message ?? error);
+        break;
+      }
+      case Opcode.EndOfStream: {
+        const end = message.d as ClosePayload | undefined;
+        console.log(`[SevenTVEvents] End of stream (${end?.code}: ${end?.message})`);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Starts a session, resuming the previous one if there was one
+   */
+  private handleHello(hello: HelloPayload): void {
+    this.heartbeatInterval = hello.heartbeat_interval;
+    this.subscriptionLimit = hello.subscription_limit && hello.subscription_limit > 0
+      ? hello.subscription_limit
+      : Infinity;
+    this.resetHeartbeatTimeout();
+
+    const previousSession = this.sessionId;
+    this.sessionId = hello.session_id;
+
+    if (previousSession) {
+      this.send(Opcode.Resume, { session_id: previousSession });
+      return;
+    }
+
+    this.startSession(false);
+  }
+
+  /**
+   * Handles command acknowledgements
+   */
+  private handleAck(ack: AckPayload): void {
+    if (ack.command !== 'RESUME') return;
+
+    if (ack.data?.success) {
+      console.log(`[SevenTVEvents] Session resumed, ${ack.data.dispatches_replayed ?? 0} missed event(s) replayed`);
+      this.reconnectAttempts = 0;
+      this.ready = true;
+      this.updateLiveEmoteSets();
+      return;
+    }
+
+    // Events sent while disconnected are lost, so fetch every channel again
+    console.log('[SevenTVEvents] Session could not be resumed, resubscribing');
+    this.startSession(true);
+  }
+
+  /**
+   * Subscribes to every channel on a new session
+   * @param refresh - Whether to fetch every channel to catch up on missed events
+   */
+  private startSession(refresh: boolean): void {
+    console.log('[SevenTVEvents] Connected, receiving live emote set updates');
+    this.reconnectAttempts = 0;
+    this.subscriptions.clear();
+    this.ready = true;
+    this.syncSubscriptions();
+
+    if (refresh) {
+      for (const { channel } of this.emoteService.getChannelEmoteSets()) {
+        this.emoteService.refreshChannelEmotes(channel).catch(error => {
+          console.error(`[SevenTVEvents] Error refreshing emotes for ${channel}:`, error);
+        });
+      }
+    }
+  }
+
+  /**
+   * Applies a dispatched change
+   */
+  private handleDispatch(type: string, body: ChangeMap): void {
+    if (type === 'emote_set.update') {
+      // Emote values that aren't shaped like an emote are skipped rather than patched in
+      const emotes = (fields: ChangeField[] = [], side: 'value' | 'old_value') => fields
+        .filter(field => field.key === 'emotes')
+        .map(field => field[side])
+        .filter(isSevenTVEmote);
+
+      this.emoteService.patchEmoteSet(body.id, {
+        pushed: emotes(body.pushed, 'value'),
+        pulled: emotes(body.pulled, 'old_value').map(emote => emote.id),
+        updated: emotes(body.updated, 'value'),
+        actorId: body.actor?.id ?? null
+      }).catch(error => {
+        console.error(`[SevenTVEvents] Error applying update to emote set ${body.id}:`, error);
+      });
+      return;
+    }
+
+    if (type === 'user.update') {
+      // The active emote set may have been switched
+      for (const entry of this.emoteService.getChannelEmoteSets()) {
+        if (entry.userId !== body.id) continue;
+        this.emoteService.refreshChannelEmotes(entry.channel).catch(error => {
+          console.error(`[SevenTVEvents] Error refreshing emotes for ${entry.channel}:`, error);
+        });
+      }
+    }
+  }
+
+  /**
+   * Subscribes to the users and emote sets of all tracked channels and drops stale subscriptions
+   * Channels beyond the server's subscription limit keep being polled.
+   */
+  private syncSubscriptions(): void {
+    if (!this.ready) return;
+
+    const wanted = new Set<string>();
+    for (const entry of this.emoteService.getChannelEmoteSets()) {
+      wanted.add(`user.update:${entry.userId}`);
+      if (entry.emoteSetId) {
+        wanted.add(`emote_set.update:${entry.emoteSetId}`);
+      }
+    }
+
+    for (const key of this.subscriptions) {
+      if (!wanted.has(key)) {
+        this.subscriptions.delete(key);
+        this.sendSubscription(Opcode.Unsubscribe, key);
+      }
+    }
+
+    for (const key of wanted) {
+      if (this.subscriptions.has(key)) continue;
+      if (this.subscriptions.size >= this.subscriptionLimit) {
+        console.warn(`[SevenTVEvents] Subscription limit (${this.subscriptionLimit}) reached, remaining channels are polled`);
+        break;
+      }
+      this.subscriptions.add(key);
+      this.sendSubscription(Opcode.Subscribe, key);
+    }
+
+    this.updateLiveEmoteSets();
+  }
+
+  /**
+   * Sends a subscribe or unsubscribe command for a `type:objectId` key
+   */
+  private sendSubscription(op: typeof Opcode.Subscribe | typeof Opcode.Unsubscribe, key: string): void {
+    const separator = key.indexOf(':');
+    const type = key.slice(0, separator) as SubscriptionType;
+    this.send(op, { type, condition: { object_id: key.slice(separator + 1) } });
+  }
+
+  /**
+   * Tells the EmoteService which emote sets no longer need polling
+   */
+  private updateLiveEmoteSets(): void {
+    const live = new Set<string>();
+    if (this.ready) {
+      for (const key of this.subscriptions) {
+        if (key.startsWith('emote_set.update:')) {
+          live.add(key.slice('emote_set.update:'.length));
+        }
+      }
+    }
+    this.emoteService.setLiveEmoteSets(live);
+  }
+
+  /**
+   * Reconnects if the server stays silent for three heartbeat intervals
+   */
+  private resetHeartbeatTimeout(): void {
+    if (this.heartbeatTimeout) {
+      clearTimeout(this.heartbeatTimeout);
+      this.heartbeatTimeout = null;
+    }
+    if (this.heartbeatInterval <= 0) return;
+
+    this.heartbeatTimeout = setTimeout(() => {
+      console.log('[SevenTVEvents] Heartbeat missed, reconnecting');
+      this.socket?.close(4000, 'Heartbeat timeout');
+    }, this.heartbeatInterval * 3);
+  }
+
+  /**
+   * Stops live updates so the emote caches are polled again
+   */
+  private handleDisconnect(): void {
+    this.ready = false;
+    if (this.heartbeatTimeout) {
+      clearTimeout(this.heartbeatTimeout);
+      this.heartbeatTimeout = null;
+    }
+    this.updateLiveEmoteSets();
+  }
+
+  /**
+   * Reconnects after a growing delay
+   */
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return;
+
+    const delay = RECONNECT_DELAYS_MS[Math.min(this.reconnectAttempts, RECONNECT_DELAYS_MS.length - 1)]!;
+    this.reconnectAttempts++;
+    console.log(`[SevenTVEvents] Reconnecting in ${delay / 1000}s`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * Sends a command if the socket is open
+   */
+  private send(op: Opcode, d: unknown): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ op, d }));
+    }
+  }
+}
+
+/**
+ * Checks that a dispatched value is an emote set entry
+ */
+function isSevenTVEmote(value: unknown): value is SevenTVEmote {
+  const emote = value as SevenTVEmote | null;
+  return typeof emote === 'object' && emote !== null
+    && typeof emote.id === 'string'
+    && typeof emote.name === 'string'
+    && typeof emote.data === 'object' && emote.data !== null;
+}
@@ -0,0 +1,160 @@
+import type { EmoteProviderName } from '../providers/emote-provider';
+import type { EmoteService } from './emote-service';
+import { emoteKey, type StatisticsService } from './statistics-service';
+import { DAY_MS } from './usage-history';
+
+/**
+ * Thresholds for the removal-candidate report
+ */
+export interface StaleEmoteCriteria {
+  /** Emotes unused for at least this many days are stale (0 disables) */
+  unusedDays: number;
+  /** Emotes used fewer times than this per 1000 messages since they were added are stale (0 disables) */
+  minUsesPer1000: number;
+  /** Emotes added, or tracked, for less than this many days are never reported */
+  graceDays: number;
+}
+
+/**
+ * Why an emote is a removal candidate
+ */
+export type StaleReason = 'unused' | 'low-usage';
+
+/**
+ * An emote in the removal-candidate report
+ */
+export interface StaleEmote {
+  emoteName: string;
+  emoteId: string;
+  provider: EmoteProviderName;
+  imageUrl: string;
+  animated: boolean;
+  /** When the emote was added, or null if the provider doesn't report it */
+  addedAt: number | null;
+  /** When the bot first saw the emote, set where addedAt is null */
+  firstSeenAt?: number;
+  /** Last use, or null if the emote was never used */
+  lastUsed: number | null;
+  /** Days since the last use, or since the emote was added (or first seen) or tracking began if it was never used */
+  daysUnused: number;
+  /** Uses since the emote was added, or tracking began if later */
+  uses: number;
+  /** Messages in the channel over the same time */
+  messages: number;
+  /** Uses per 1000 messages over the same time, or null without messages */
+  usesPer1000: number | null;
+  reasons: StaleReason[];
+}
+
+/**
+ * Removal-candidate report for a channel
+ */
+export interface StaleEmoteReport {
+  channel: string;
+  criteria: StaleEmoteCriteria;
+  generatedAt: number;
+  /** When the bot started tracking the channel, or null before any message was seen */
+  trackingSince: number | null;
+  /** Emotes skipped because they are still inside the grace period */
+  inGracePeriod: number;
+  emotes: StaleEmote[];
+}
+
+export const DEFAULT_STALE_CRITERIA: StaleEmoteCriteria = {
+  unusedDays: 30,
+  minUsesPer1000: 1,
+  graceDays: 14
+};
+
+/**
+ * Finds emotes worth removing from a channel's emote set
+ * Usage is measured from when each emote was added, or tracking began if that was later, so emotes
+ * aren't judged against time they weren't available for or the bot wasn't watching.
+ */
+export class StaleEmoteService {
+  constructor(
+    private emoteService: EmoteService,
+    private statisticsService: StatisticsService,
+    private defaults: StaleEmoteCriteria = DEFAULT_STALE_CRITERIA
+  ) {}
+
+  /**
+   * Gets the default criteria
+   */
+  getDefaultCriteria(): StaleEmoteCriteria {
+    return this.defaults;
+  }
+
+  /**
+   * Builds the removal-candidate report for a channel
+   * @param channelName - The channel name
+   * @param criteria - Overrides for the default criteria
+   * @returns The report, or null if the channel's emotes aren't loaded
+   */
+  getReport(channelName: string, criteria: Partial<StaleEmoteCriteria> = {}): StaleEmoteReport | null {
+    const channel = channelName.toLowerCase();
+    const allEmotes = this.emoteService.getAllEmoteMetadata(channel);
+    if (!allEmotes) {
+      return null;
+    }
+
+    const effective: StaleEmoteCriteria = { ...this.defaults, ...criteria };
+    const now = Date.now();
+    const graceCutoff = now - effective.graceDays * DAY_MS;
+    const channelStats = this.statisticsService.getChannelStats(channel);
+    const trackingSince = this.statisticsService.getTrackingStart(channel);
+
+    let inGracePeriod = 0;
+    const emotes: StaleEmote[] = [];
+
+    for (const metadata of allEmotes.values()) {
+      // BTTV and FFZ don't report when an emote was added, so the bot's first sighting stands in
+      const addedAt = metadata.addedAt ?? metadata.firstSeenAt ?? now;
+      // Nothing is known about usage before the bot started tracking the channel
+      const measuredFrom = Math.max(addedAt, trackingSince ?? now);
+      if (measuredFrom > graceCutoff) {
+        inGracePeriod++;
+        continue;
+      }
+
+      const key = emoteKey(metadata.id, metadata.name, metadata.provider);
+      const since = { since: measuredFrom };
+      const lastUsed = channelStats?.emotes.get(key)?.lastUsed ?? null;
+      const uses = this.statisticsService.getEmoteCount(channel, key, since);
+      const messages = this.statisticsService.getMessageCount(channel, since);
+      const usesPer1000 = messages > 0 ? (uses / messages) * 1000 : null;
+      const daysUnused = Math.floor((now - Math.max(lastUsed ?? 0, measuredFrom)) / DAY_MS);
+
+      const reasons: StaleReason[] = [];
+      if (effective.unusedDays > 0 && daysUnused >= effective.unusedDays) {
+        reasons.push('unused');
+      }
+      if (effective.minUsesPer1000 > 0 && usesPer1000 !== null && usesPer1000 < effective.minUsesPer1000) {
+        reasons.push('low-usage');
+      }
+
+      if (reasons.length > 0) {
+        emotes.push({
+          emoteName: metadata.name,
+          emoteId: metadata.id,
+          provider: metadata.provider,
+          imageUrl: metadata.imageUrl,
+          animated: metadata.animated,
+          addedAt: metadata.addedAt,
+          ...(metadata.firstSeenAt !== undefined ? { firstSeenAt: metadata.firstSeenAt } : {}),
+          lastUsed,
+          daysUnused,
+          uses,
+          messages,
+          usesPer1000,
+          reasons
+        });
+      }
+    }
+
+    // Longest unused first, then least used
+    emotes.sort((a, b) => b.daysUnused - a.daysUnused || (a.usesPer1000 ?? 0) - (b.usesPer1000 ?? 0));
+
+    return { channel, criteria: effective, generatedAt: now, trackingSince, inGracePeriod, emotes };
+  }
+}
@@ -1,10 +1,37 @@
-import { promises as fs } from 'fs';
-import path from 'path';
+import { JsonStatsStorage } from '../storage/json-stats-storage';
+import type { EmoteSource } from '../providers/emote-provider';
+import type { EmoteMetadata } from './emote-service';
+import {
+  createChangeSet,
+  StatsRecoveryError,
+  type StatsChangeSet,
+  type StatsRecovery,
+  type StatsStorage
+} from '../storage/stats-storage';
+import {
+  addToSketch,
+  createSketch,
+  estimateCardinality,
+  mergeSketches,
+  type HyperLogLogSketch
+} from './hyperloglog';
+import {
+  DAY_MS,
+  countUsage,
+  createUsageHistory,
+  mergeUsageHistory,
+  pruneUsageHistory,
+  recordUsage,
+  type TimeWindow,
+  type UsageHistory
+} from './usage-history';
 
 /**
  * Emote usage statistics
+ * Stats are keyed by the 7TV emote ID (see emoteKey), so they survive alias renames.
  */
 export interface EmoteStats {
+  /** Current alias of the emote in the channel's set */
   emoteName: string;
   count: number;
   lastUsed: number;
@@ -12,6 +39,143 @@ export interface EmoteStats {
   emoteId?: string;
   imageUrl?: string;
   animated?: boolean;
+  /** Messages containing the emote, when both counts are stored */
+  messageCount?: number;
+  /** Total occurrences of the emote, when both counts are stored */
+  instanceCount?: number;
+  /** Uses suppressed by the spam filter, when counted separately */
+  suppressedCount?: number;
+  /** Whether the emote is from a global emote set rather than the channel's own set */
+  global?: boolean;
+  /** Emote provider, absent for 7TV emotes recorded before other providers were supported */
+  provider?: EmoteSource;
+  history?: UsageHistory;
+  reachSketch?: ReachSketch;
+  /** Aliases the emote had before its current name, oldest first */
+  aliasHistory?: EmoteAlias[];
+}
+
+/**
+ * A previous alias of an emote
+ */
+export interface EmoteAlias {
+  name: string;
+  /** When the emote was seen under a different name */
+  replacedAt: number;
+}
+
+/**
+ * Gets the key emote stats are stored under in ChannelStats.emotes
+ * 7TV emotes are keyed by their ID, BTTV, FFZ and native Twitch emotes by provider and ID, and emotes
+ * recorded without metadata fall back to their name.
+ */
+export function emoteKey(
+  emoteId: string | undefined,
+  emoteName: string,
+  provider: EmoteSource = '7tv'
+): string {
+  if (!emoteId) {
+    return `name:${emoteName}`;
+  }
+  return provider === '7tv' ? emoteId : `${provider}:${emoteId}`;
+}
+
+/**
+ * Splits an emote key back into provider and emote ID
+ * @returns The provider and ID, or null for keys of emotes without an ID
+ */
+export function parseEmoteKey(key: string): { provider: EmoteSource; emoteId: string } | null {
+  const separator = key.indexOf(':');
+  if (separator === -1) {
+    return key ? { provider: '7tv', emoteId: key } : null;
+  }
+
+  const provider = key.slice(0, separator);
+  if (provider !== 'bttv' && provider !== 'ffz' && provider !== 'twitch') {
+    return null;
+  }
+  return { provider, emoteId: key.slice(separator + 1) };
+}
+
+/**
+ * Approximate distinct chatter sets for an emote, lifetime and per UTC day
+ */
+export interface ReachSketch {
+  lifetime: HyperLogLogSketch;
+  daily: Record<string, HyperLogLogSketch>;
+}
+
+/**
+ * Emote statistics as exposed by the API
+ * `reach` is the approximate number of distinct chatters who used the emote.
+ */
+export interface EmoteSummary extends Omit<EmoteStats, 'history' | 'reachSketch'> {
+  reach: number;
+}
+
+// Daily reach sketches are kept for this long; windows reaching further back only count the retained days
+export const REACH_RETENTION_MS = 90 * DAY_MS;
+
+/**
+ * Emote usage statistics for a single chatter in a channel
+ */
+export interface ChatterStats {
+  userId: string;
+  userName: string;
+  displayName: string;
+  totalEmotes: number;
+  lastSeen: number;
+  emotes: Record<string, number>;
+}
+
+/**
+ * Chatter statistics with emotes sorted by usage, as exposed by the API
+ */
+export interface ChatterSummary extends Omit<ChatterStats, 'emotes'> {
+  channel: string;
+  emotes: Array<{ emoteId?: string; emoteName: string; count: number }>;
+}
+
+/**
+ * A chatter's usage of a single emote
+ */
+export interface EmoteChatter {
+  userId: string;
+  userName: string;
+  displayName: string;
+  count: number;
+}
+
+/**
+ * Identifies the chatter who used an emote
+ */
+export interface ChatterInfo {
+  userId: string;
+  userName: string;
+  displayName: string;
+}
+
+/**
+ * Emote metadata stored with usage statistics
+ */
+export interface EmoteStatsMetadata {
+  emoteId: string;
+  imageUrl: string;
+  animated: boolean;
+  provider?: EmoteSource;
+  global?: boolean;
+}
+
+/**
+ * Details of a single message's use of an emote
+ */
+export interface EmoteUsage {
+  /** Chatter who used the emote */
+  chatter?: ChatterInfo;
+  /** Uses to count under the channel's counting mode (defaults to 1) */
+  count?: number;
+  /** Occurrences in the message; when set, message and instance counts are stored too */
+  instances?: number;
 }
 
 /**
@@ -21,17 +185,26 @@ export interface ChannelStats {
   channelName: string;
   totalMessages: number;
   totalEmotesUsed: number;
+  /** Emote stats keyed by emoteKey */
   emotes: Map<string, EmoteStats>;
+  messageHistory?: UsageHistory;
+  emoteHistory?: UsageHistory;
+  /** Uses of 7TV global emotes, which are counted apart from totalEmotesUsed */
+  totalGlobalEmotesUsed?: number;
+  globalEmoteHistory?: UsageHistory;
+  chatters?: Map<string, ChatterStats>;
+  /** Messages from bots and ignored chatters, which are left out of all other stats */
+  ignoredMessages?: number;
+  /** When the bot started tracking the channel; unset in stats saved before it was recorded */
+  trackingSince?: number;
 }
 
 /**
- * Serializable version of ChannelStats for JSON storage
+ * Statistics service options
  */
-interface SerializableChannelStats {
-  channelName: string;
-  totalMessages: number;
-  totalEmotesUsed: number;
-  emotes: EmoteStats[];
+export interface StatisticsOptions {
+  /** Track which emotes each chatter uses */
+  trackChatters: boolean;
 }
 
 /**
@@ -39,56 +212,335 @@ interface SerializableChannelStats {
  */
 export class StatisticsService {
   private channelStats: Map<string, ChannelStats> = new Map();
-  private dataDir = './data/statistics';
-  private statsFile = path.join(this.dataDir, 'stats.json');
+  private changes = createChangeSet();
   private saveInterval: NodeJS.Timeout | null = null;
   private isDirty = false;
 
+  constructor(
+    private storage: StatsStorage = new JsonStatsStorage(),
+    private options: StatisticsOptions = { trackChatters: false }
+  ) {}
+
+  /**
+   * Whether per-chatter tracking is enabled
+   */
+  isTrackingChatters(): boolean {
+    return this.options.trackChatters;
+  }
+
   /**
    * Records emote usage in a channel
    * @param channelName - The channel where the emote was used
    * @param emoteName - The name of the emote
    * @param metadata - Optional emote metadata (ID, image URL, animated flag)
+   * @param usage - Optional chatter, counted uses and occurrences in the message
    */
   recordEmoteUsage(
     channelName: string,
     emoteName: string,
-    metadata?: { emoteId: string; imageUrl: string; animated: boolean }
+    metadata?: EmoteStatsMetadata,
+    usage: EmoteUsage = {}
   ): void {
     const channel = channelName.toLowerCase();
+    const stats = this.getOrCreateChannelStats(channel);
+    const now = Date.now();
+    const { chatter, count = 1, instances } = usage;
+    const key = emoteKey(metadata?.emoteId, emoteName, metadata?.provider);
+    const emoteStats = this.getOrCreateEmoteStats(stats, key, emoteName, metadata, now);
 
-    // Initialize channel stats if doesn't exist
-    if (!this.channelStats.has(channel)) {
-      this.channelStats.set(channel, {
-        channelName: channel,
-        totalMessages: 0,
-        totalEmotesUsed: 0,
-        emotes: new Map()
-      });
+    // Update stats
+    emoteStats.count += count;
+    emoteStats.lastUsed = now;
+    emoteStats.history ??= createUsageHistory();
+    recordUsage(emoteStats.history, now, count);
+    if (emoteStats.global) {
+      stats.totalGlobalEmotesUsed = (stats.totalGlobalEmotesUsed ?? 0) + count;
+      stats.globalEmoteHistory ??= createUsageHistory();
+      recordUsage(stats.globalEmoteHistory, now, count);
+    } else {
+      stats.totalEmotesUsed += count;
+      recordUsage(stats.emoteHistory!, now, count);
+    }
+
+    if (instances !== undefined) {
+      emoteStats.messageCount = (emoteStats.messageCount ?? 0) + 1;
+      emoteStats.instanceCount = (emoteStats.instanceCount ?? 0) + instances;
+    }
+    this.markEmoteChanged(channel, key);
+
+    if (chatter) {
+      this.recordReach(emoteStats, chatter.userId, now);
+
+      if (this.options.trackChatters) {
+        this.recordChatterUsage(stats, key, chatter, count, now);
+      }
     }
+  }
 
-    const stats = this.channelStats.get(channel)!;
+  /**
+   * Records emote uses suppressed by the spam filter
+   * They are kept apart from the counted uses so raw and de-spammed counts can be compared.
+   * @param channelName - The channel where the emote was used
+   * @param emoteName - The name of the emote
+   * @param metadata - Optional emote metadata (ID, image URL, animated flag)
+   * @param count - Number of suppressed uses
+   */
+  recordSuppressedEmoteUsage(
+    channelName: string,
+    emoteName: string,
+    metadata?: EmoteStatsMetadata,
+    count: number = 1
+  ): void {
+    const channel = channelName.toLowerCase();
+    const stats = this.getOrCreateChannelStats(channel);
+    const key = emoteKey(metadata?.emoteId, emoteName, metadata?.provider);
+    const emoteStats = this.getOrCreateEmoteStats(stats, key, emoteName, metadata, Date.now());
+
+    emoteStats.suppressedCount = (emoteStats.suppressedCount ?? 0) + count;
+    this.markEmoteChanged(channel, key);
+  }
 
-    // Get or create emote stats
-    let emoteStats = stats.emotes.get(emoteName);
+  /**
+   * Gets emote stats in a channel, initializing them if they don't exist yet
+   * An existing emote used under a new alias is renamed, and its global flag follows
+   * the set it was last used from.
+   */
+  private getOrCreateEmoteStats(
+    stats: ChannelStats,
+    key: string,
+    emoteName: string,
+    metadata: EmoteStatsMetadata | undefined,
+    now: number
+  ): EmoteStats {
+    let emoteStats = stats.emotes.get(key);
+    if (emoteStats && emoteStats.emoteName !== emoteName) {
+      this.renameEmote(emoteStats, emoteName, now);
+    }
     if (!emoteStats) {
       emoteStats = {
         emoteName,
         count: 0,
-        lastUsed: Date.now(),
-        channel,
+        lastUsed: now,
+        channel: stats.channelName,
         emoteId: metadata?.emoteId,
         imageUrl: metadata?.imageUrl,
-        animated: metadata?.animated
+        animated: metadata?.animated,
+        provider: metadata?.provider,
+        history: createUsageHistory()
       };
-      stats.emotes.set(emoteName, emoteStats);
+      stats.emotes.set(key, emoteStats);
+    }
+    if (metadata) {
+      emoteStats.global = metadata.global || undefined;
     }
 
-    // Update stats
-    emoteStats.count++;
-    emoteStats.lastUsed = Date.now();
-    stats.totalEmotesUsed++;
-    this.isDirty = true;
+    return emoteStats;
+  }
+
+  /**
+   * Changes an emote's current alias, keeping the previous one in its alias history
+   */
+  private renameEmote(emoteStats: EmoteStats, newName: string, now: number): void {
+    console.log(`[StatisticsService] ${emoteStats.channel}: ${emoteStats.emoteName} is now called ${newName}`);
+
+    emoteStats.aliasHistory = (emoteStats.aliasHistory ?? []).filter(alias => alias.name !== newName);
+    emoteStats.aliasHistory.push({ name: emoteStats.emoteName, replacedAt: now });
+    emoteStats.emoteName = newName;
+  }
+
+  /**
+   * Reconciles a channel's stats with its current emote set
+   * Stats recorded under an emote's name only are merged into its ID-keyed stats,
+   * and emotes whose alias changed are renamed.
+   * @param channelName - The channel name
+   * @param emotes - Current emote metadata keyed by emote name
+   */
+  reconcileEmotes(channelName: string, emotes: Map<string, EmoteMetadata>): void {
+    const stats = this.getChannelStats(channelName);
+    if (!stats) return;
+
+    const now = Date.now();
+    let merged = 0;
+    let renamed = 0;
+
+    for (const metadata of emotes.values()) {
+      const key = emoteKey(metadata.id, metadata.name, metadata.provider);
+      const nameKey = emoteKey(undefined, metadata.name);
+      if (stats.emotes.has(nameKey)) {
+        this.moveEmote(stats, nameKey, key);
+        const moved = stats.emotes.get(key)!;
+        moved.emoteId = metadata.id;
+        moved.provider = metadata.provider;
+        merged++;
+      }
+
+      const emoteStats = stats.emotes.get(key);
+      if (emoteStats && emoteStats.emoteName !== metadata.name) {
+        this.renameEmote(emoteStats, metadata.name, now);
+        this.markEmoteChanged(stats.channelName, key);
+        renamed++;
+      }
+    }
+
+    if (merged > 0) {
+      // Keys were removed, which incremental saves don't track
+      this.changes.fullRewrite = true;
+      this.isDirty = true;
+    }
+    if (merged > 0 || renamed > 0) {
+      console.log(`[StatisticsService] Reconciled ${stats.channelName} with its emote set: ${merged} matched by name, ${renamed} renamed`);
+    }
+  }
+
+  /**
+   * Re-keys stats loaded from name-keyed storage by emote ID
+   * @returns Whether any emote was re-keyed
+   */
+  private migrateEmoteKeys(stats: ChannelStats): boolean {
+    let migrated = false;
+
+    for (const [key, emote] of Array.from(stats.emotes)) {
+      const targetKey = emoteKey(emote.emoteId, emote.emoteName, emote.provider);
+      if (key !== targetKey) {
+        this.moveEmote(stats, key, targetKey);
+        migrated = true;
+      }
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Moves an emote's stats (and its chatters' counts) to another key, merging with stats already there
+   */
+  private moveEmote(stats: ChannelStats, fromKey: string, toKey: string): void {
+    const source = stats.emotes.get(fromKey)!;
+    const target = stats.emotes.get(toKey);
+    stats.emotes.delete(fromKey);
+    stats.emotes.set(toKey, target ? this.mergeEmoteStats(target, source) : source);
+
+    for (const chatter of stats.chatters?.values() ?? []) {
+      const count = chatter.emotes[fromKey];
+      if (count !== undefined) {
+        chatter.emotes[toKey] = (chatter.emotes[toKey] ?? 0) + count;
+        delete chatter.emotes[fromKey];
+      }
+    }
+  }
+
+  /**
+   * Combines two stats entries of the same emote
+   * The most recently used entry's name is kept; the other becomes a previous alias.
+   */
+  private mergeEmoteStats(a: EmoteStats, b: EmoteStats): EmoteStats {
+    const [current, previous] = a.lastUsed >= b.lastUsed ? [a, b] : [b, a];
+    const addOptional = (x?: number, y?: number) => (x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0));
+
+    const history = createUsageHistory();
+    if (a.history) mergeUsageHistory(history, a.history);
+    if (b.history) mergeUsageHistory(history, b.history);
+
+    let reachSketch: ReachSketch | undefined;
+    if (a.reachSketch || b.reachSketch) {
+      const sketches = [a.reachSketch, b.reachSketch].filter((sketch): sketch is ReachSketch => !!sketch);
+      const days = new Set(sketches.flatMap(sketch => Object.keys(sketch.daily)));
+      reachSketch = {
+        lifetime: mergeSketches(sketches.map(sketch => sketch.lifetime)),
+        daily: Object.fromEntries(Array.from(days, day => [
+          day,
+          mergeSketches(sketches.map(sketch => sketch.daily[day]).filter((daily): daily is HyperLogLogSketch => !!daily))
+        ]))
+      };
+    }
+
+    const aliasHistory = [...(previous.aliasHistory ?? []), ...(current.aliasHistory ?? [])];
+    if (previous.emoteName !== current.emoteName) {
+      aliasHistory.push({ name: previous.emoteName, replacedAt: previous.lastUsed });
+    }
+
+    return {
+      ...current,
+      emoteId: current.emoteId ?? previous.emoteId,
+      count: a.count + b.count,
+      messageCount: addOptional(a.messageCount, b.messageCount),
+      instanceCount: addOptional(a.instanceCount, b.instanceCount),
+      suppressedCount: addOptional(a.suppressedCount, b.suppressedCount),
+      history,
+      reachSketch,
+      aliasHistory: aliasHistory.length > 0
+        ? aliasHistory.filter(alias => alias.name !== current.emoteName).sort((x, y) => x.replacedAt - y.replacedAt)
+        : undefined
+    };
+  }
+
+  /**
+   * Adds a chatter to an emote's lifetime and daily reach sketches
+   */
+  private recordReach(emoteStats: EmoteStats, userId: string, now: number): void {
+    emoteStats.reachSketch ??= { lifetime: createSketch(), daily: {} };
+
+    const day = String(now - (now % DAY_MS));
+    emoteStats.reachSketch.daily[day] ??= createSketch();
+
+    addToSketch(emoteStats.reachSketch.lifetime, userId);
+    addToSketch(emoteStats.reachSketch.daily[day], userId);
+  }
+
+  /**
+   * Estimates the number of distinct chatters who used an emote
+   * Windowed reach merges the daily sketches overlapping the window, so it has day granularity.
+   */
+  private estimateReach(reachSketch: ReachSketch | undefined, window?: TimeWindow): number {
+    if (!reachSketch) return 0;
+    if (!window) return estimateCardinality(reachSketch.lifetime);
+
+    const since = window.since ?? 0;
+    const until = window.until ?? Infinity;
+    const sketches = Object.entries(reachSketch.daily)
+      .filter(([start]) => Number(start) + DAY_MS > since && Number(start) < until)
+      .map(([, sketch]) => sketch);
+
+    return estimateCardinality(mergeSketches(sketches));
+  }
+
+  /**
+   * Records a chatter's use of an emote
+   */
+  private recordChatterUsage(
+    stats: ChannelStats,
+    key: string,
+    chatter: ChatterInfo,
+    count: number,
+    now: number
+  ): void {
+    stats.chatters ??= new Map();
+
+    let chatterStats = stats.chatters.get(chatter.userId);
+    if (!chatterStats) {
+      chatterStats = {
+        userId: chatter.userId,
+        userName: chatter.userName,
+        displayName: chatter.displayName,
+        totalEmotes: 0,
+        lastSeen: now,
+        emotes: {}
+      };
+      stats.chatters.set(chatter.userId, chatterStats);
+    }
+
+    // Names can change, keep the latest
+    chatterStats.userName = chatter.userName;
+    chatterStats.displayName = chatter.displayName;
+    chatterStats.totalEmotes += count;
+    chatterStats.lastSeen = now;
+    chatterStats.emotes[key] = (chatterStats.emotes[key] ?? 0) + count;
+
+    let changed = this.changes.chatters.get(stats.channelName);
+    if (!changed) {
+      changed = new Set();
+      this.changes.chatters.set(stats.channelName, changed);
+    }
+    changed.add(chatter.userId);
   }
 
   /**
@@ -96,19 +548,68 @@ export class StatisticsService {
    * @param channelName - The channel where the message was sent
    */
   recordMessage(channelName: string): void {
-    const channel = channelName.toLowerCase();
+    const stats = this.getOrCreateChannelStats(channelName.toLowerCase());
+
+    stats.totalMessages++;
+    recordUsage(stats.messageHistory!, Date.now());
+    this.markChannelChanged(stats.channelName);
+  }
+
+  /**
+   * Records a message from an ignored sender in a channel
+   * @param channelName - The channel where the message was sent
+   */
+  recordIgnoredMessage(channelName: string): void {
+    const stats = this.getOrCreateChannelStats(channelName.toLowerCase());
+
+    stats.ignoredMessages = (stats.ignoredMessages ?? 0) + 1;
+    this.markChannelChanged(stats.channelName);
+  }
+
+  /**
+   * Marks a channel's totals as changed since the last save
+   */
+  private markChannelChanged(channel: string): void {
+    this.changes.channels.add(channel);
+    this.isDirty = true;
+  }
+
+  /**
+   * Marks an emote (and its channel's totals) as changed since the last save
+   */
+  private markEmoteChanged(channel: string, key: string): void {
+    let emotes = this.changes.emotes.get(channel);
+    if (!emotes) {
+      emotes = new Set();
+      this.changes.emotes.set(channel, emotes);
+    }
+    emotes.add(key);
+    this.markChannelChanged(channel);
+  }
 
-    if (!this.channelStats.has(channel)) {
-      this.channelStats.set(channel, {
+  /**
+   * Gets channel stats, initializing them if they don't exist yet
+   */
+  private getOrCreateChannelStats(channel: string): ChannelStats {
+    let stats = this.channelStats.get(channel);
+    if (!stats) {
+      stats = {
         channelName: channel,
         totalMessages: 0,
         totalEmotesUsed: 0,
-        emotes: new Map()
-      });
+        emotes: new Map(),
+        messageHistory: createUsageHistory(),
+        emoteHistory: createUsageHistory(),
+        trackingSince: Date.now()
+      };
+      this.channelStats.set(channel, stats);
     }
 
-    this.channelStats.get(channel)!.totalMessages++;
-    this.isDirty = true;
+    // Stats loaded from older files have no history yet
+    stats.messageHistory ??= createUsageHistory();
+    stats.emoteHistory ??= createUsageHistory();
+
+    return stats;
   }
 
   /**
@@ -118,6 +619,14 @@ export class StatisticsService {
     return this.channelStats.get(channelName.toLowerCase()) ?? null;
   }
 
+  /**
+   * Whether any channel has recorded uses of an emote
+   * @param key - The emote key, see emoteKey()
+   */
+  hasEmote(key: string): boolean {
+    return Array.from(this.channelStats.values()).some(stats => stats.emotes.has(key));
+  }
+
   /**
    * Gets statistics for all channels
    */
@@ -128,12 +637,13 @@ export class StatisticsService {
   /**
    * Gets top emotes across all channels
    * @param limit - Maximum number of emotes to return
+   * @param window - Optional time window; counts only include usage inside it
    */
-  getTopEmotes(limit: number = 100): EmoteStats[] {
-    const allEmotes: EmoteStats[] = [];
+  getTopEmotes(limit: number = 100, window?: TimeWindow): EmoteSummary[] {
+    const allEmotes: EmoteSummary[] = [];
 
     for (const channelStats of this.channelStats.values()) {
-      allEmotes.push(...Array.from(channelStats.emotes.values()));
+      allEmotes.push(...this.summarizeEmotes(channelStats, window));
     }
 
     return allEmotes
@@ -145,105 +655,302 @@ export class StatisticsService {
    * Gets top emotes for a specific channel
    * @param channelName - The channel to get emotes for
    * @param limit - Maximum number of emotes to return
+   * @param window - Optional time window; counts only include usage inside it
    */
-  getTopEmotesForChannel(channelName: string, limit: number = 10): EmoteStats[] {
+  getTopEmotesForChannel(channelName: string, limit: number = 10, window?: TimeWindow): EmoteSummary[] {
     const channelStats = this.getChannelStats(channelName);
     if (!channelStats) return [];
 
-    return Array.from(channelStats.emotes.values())
+    return this.summarizeEmotes(channelStats, window)
       .sort((a, b) => b.count - a.count)
       .slice(0, limit);
   }
 
+  /**
+   * Gets a chatter's emote usage in a channel
+   * @param channelName - The channel name
+   * @param user - The chatter's user ID or login name
+   * @returns The chatter's stats, or null if the chatter has no recorded emote usage
+   */
+  getUserStats(channelName: string, user: string): ChatterSummary | null {
+    const channelStats = this.getChannelStats(channelName);
+    const chatters = channelStats?.chatters;
+    if (!chatters) return null;
+
+    const login = user.toLowerCase();
+    const chatterStats = chatters.get(user)
+      ?? Array.from(chatters.values()).find(chatter => chatter.userName.toLowerCase() === login);
+    if (!chatterStats) return null;
+
+    return {
+      ...chatterStats,
+      channel: channelName.toLowerCase(),
+      emotes: Object.entries(chatterStats.emotes)
+        .map(([key, count]) => {
+          const emote = channelStats.emotes.get(key);
+          return { emoteId: emote?.emoteId, emoteName: emote?.emoteName ?? key, count };
+        })
+        .sort((a, b) => b.count - a.count)
+    };
+  }
+
+  /**
+   * Gets the chatters who used an emote the most in a channel
+   * @param channelName - The channel name
+   * @param emote - The emote ID or current name
+   * @param limit - Maximum number of chatters to return
+   */
+  getTopChattersForEmote(channelName: string, emote: string, limit: number = 10): EmoteChatter[] {
+    const channelStats = this.getChannelStats(channelName);
+    const key = channelStats && this.findEmoteKey(channelStats, emote);
+    if (!channelStats?.chatters || !key) return [];
+
+    const result: EmoteChatter[] = [];
+    for (const chatter of channelStats.chatters.values()) {
+      const count = chatter.emotes[key];
+      if (count) {
+        result.push({
+          userId: chatter.userId,
+          userName: chatter.userName,
+          displayName: chatter.displayName,
+          count
+        });
+      }
+    }
+
+    return result
+      .sort((a, b) => b.count - a.count)
+      .slice(0, limit);
+  }
+
+  /**
+   * Gets the number of uses of an emote in a channel, optionally within a time window
+   * @param emote - The emote ID or current name
+   */
+  getEmoteCount(channelName: string, emote: string, window?: TimeWindow): number {
+    const channelStats = this.getChannelStats(channelName);
+    const key = channelStats && this.findEmoteKey(channelStats, emote);
+    const emoteStats = key ? channelStats!.emotes.get(key) : undefined;
+    if (!emoteStats) return 0;
+
+    return window ? countUsage(emoteStats.history, window) : emoteStats.count;
+  }
+
+  /**
+   * Finds the key of an emote by ID or current name
+   */
+  private findEmoteKey(channelStats: ChannelStats, emote: string): string | null {
+    if (channelStats.emotes.has(emote)) {
+      return emote;
+    }
+
+    for (const [key, emoteStats] of channelStats.emotes) {
+      if (emoteStats.emoteName === emote) return key;
+    }
+
+    return null;
+  }
+
+  /**
+   * Gets when the bot started tracking a channel
+   * Stats saved before this was recorded fall back to their oldest message history bucket.
+   * @returns The timestamp, or null if the channel has no stats
+   */
+  getTrackingStart(channelName: string): number | null {
+    const channelStats = this.getChannelStats(channelName);
+    if (!channelStats) return null;
+    if (channelStats.trackingSince !== undefined) return channelStats.trackingSince;
+
+    const history = channelStats.messageHistory;
+    const buckets = [...Object.keys(history?.daily ?? {}), ...Object.keys(history?.hourly ?? {})].map(Number);
+    return buckets.length > 0 ? Math.min(...buckets) : null;
+  }
+
+  /**
+   * Gets the number of messages in a channel, optionally within a time window
+   */
+  getMessageCount(channelName: string, window?: TimeWindow): number {
+    const channelStats = this.getChannelStats(channelName);
+    if (!channelStats) return 0;
+
+    return window ? countUsage(channelStats.messageHistory, window) : channelStats.totalMessages;
+  }
+
+  /**
+   * Converts a channel's emote stats to summaries, replacing counts with windowed counts
+   * Emotes without usage in the window are omitted.
+   */
+  private summarizeEmotes(channelStats: ChannelStats, window?: TimeWindow): EmoteSummary[] {
+    const summaries: EmoteSummary[] = [];
+
+    for (const { history, reachSketch, ...emote } of channelStats.emotes.values()) {
+      if (!window) {
+        summaries.push({ ...emote, reach: this.estimateReach(reachSketch) });
+        continue;
+      }
+
+      // Message, instance and suppressed counts are lifetime totals, so they don't apply to a window
+      const { messageCount, instanceCount, suppressedCount, ...rest } = emote;
+      const count = countUsage(history, window);
+      if (count > 0) {
+        summaries.push({ ...rest, count, reach: this.estimateReach(reachSketch, window) });
+      }
+    }
+
+    return summaries;
+  }
+
   /**
    * Gets emote statistics in a format suitable for JSON export
+   * @param window - Optional time window; totals and counts only include usage inside it
    */
-  exportStats() {
+  exportStats(window?: TimeWindow) {
     const channels = this.getAllStats().map(channel => ({
       channelName: channel.channelName,
-      totalMessages: channel.totalMessages,
-      totalEmotesUsed: channel.totalEmotesUsed,
-      emotes: Array.from(channel.emotes.values()).sort((a, b) => b.count - a.count)
+      totalMessages: window ? countUsage(channel.messageHistory, window) : channel.totalMessages,
+      totalEmotesUsed: window ? countUsage(channel.emoteHistory, window) : channel.totalEmotesUsed,
+      totalGlobalEmotesUsed: window
+        ? countUsage(channel.globalEmoteHistory, window)
+        : channel.totalGlobalEmotesUsed ?? 0,
+      // Ignored messages are a lifetime total, so they don't apply to a window
+      ignoredMessages: window ? undefined : channel.ignoredMessages ?? 0,
+      emotes: this.summarizeEmotes(channel, window).sort((a, b) => b.count - a.count)
     }));
 
     return {
       channels,
-      topEmotes: this.getTopEmotes(20),
+      topEmotes: this.getTopEmotes(20, window),
+      window: window ?? null,
+      chatterTracking: this.options.trackChatters,
+      recovery: this.getRecoveryStatus(),
       lastUpdated: Date.now()
     };
   }
 
+  /**
+   * Gets details of the recovery performed on the last load, if any
+   */
+  getRecoveryStatus(): StatsRecovery | null {
+    return this.storage.recovery ?? null;
+  }
+
   /**
    * Clears all statistics
    */
   clearStats(): void {
     this.channelStats.clear();
+    this.changes = createChangeSet();
+    this.changes.fullRewrite = true;
     this.isDirty = true;
     console.log('[StatisticsService] All statistics cleared');
   }
 
   /**
-   * Saves statistics to disk
+   * Saves statistics to the storage backend
    */
   async saveStats(): Promise<void> {
+    // Hand the pending changes to the backend; they are restored if the save fails
+    const changes = this.changes;
+    this.changes = createChangeSet();
+    this.isDirty = false;
+
     try {
-      // Ensure directory exists
-      await fs.mkdir(this.dataDir, { recursive: true });
-
-      // Convert Map to serializable format
-      const serializableData: SerializableChannelStats[] = Array.from(this.channelStats.values()).map(channel => ({
-        channelName: channel.channelName,
-        totalMessages: channel.totalMessages,
-        totalEmotesUsed: channel.totalEmotesUsed,
-        emotes: Array.from(channel.emotes.values())
-      }));
-
-      // Write to file
-      await fs.writeFile(
-        this.statsFile,
-        JSON.stringify(serializableData, null, 2),
-        'utf-8'
-      );
-
-      this.isDirty = false;
+      // Drop buckets that fell out of retention
+      this.pruneHistory();
+
+      await this.storage.save(this.getAllStats(), changes);
       console.log('[StatisticsService] Statistics saved to disk');
     } catch (error) {
+      this.restoreChanges(changes);
       console.error('[StatisticsService] Error saving statistics:', error);
     }
   }
 
   /**
-   * Loads statistics from disk
+   * Merges changes from a failed save back into the pending change set
+   */
+  private restoreChanges(changes: StatsChangeSet): void {
+    this.changes.fullRewrite ||= changes.fullRewrite;
+    for (const channel of changes.channels) {
+      this.changes.channels.add(channel);
+    }
+    for (const [channel, emotes] of changes.emotes) {
+      for (const key of emotes) {
+        this.markEmoteChanged(channel, key);
+      }
+    }
+    for (const [channel, userIds] of changes.chatters) {
+      const pending = this.changes.chatters.get(channel) ?? new Set();
+      userIds.forEach(userId => pending.add(userId));
+      this.changes.chatters.set(channel, pending);
+    }
+    this.isDirty = true;
+  }
+
+  /**
+   * Removes expired usage buckets from all channels and emotes
+   */
+  private pruneHistory(): void {
+    const now = Date.now();
+
+    for (const channel of this.channelStats.values()) {
+      if (channel.messageHistory) pruneUsageHistory(channel.messageHistory, now);
+      if (channel.emoteHistory) pruneUsageHistory(channel.emoteHistory, now);
+      if (channel.globalEmoteHistory) pruneUsageHistory(channel.globalEmoteHistory, now);
+
+      for (const emote of channel.emotes.values()) {
+        if (emote.history) pruneUsageHistory(emote.history, now);
+
+        for (const day of Object.keys(emote.reachSketch?.daily ?? {})) {
+          if (Number(day) < now - REACH_RETENTION_MS - DAY_MS) {
+            delete emote.reachSketch!.daily[day];
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Loads statistics from the storage backend
+   * Damaged data that can't be recovered is set aside and tracking starts from zero.
+   * @throws If the storage can't be read, since saving over it would lose the statistics
    */
   async loadStats(): Promise<void> {
     try {
-      const data = await fs.readFile(this.statsFile, 'utf-8');
-      const serializableData: SerializableChannelStats[] = JSON.parse(data);
+      const channels = await this.storage.load();
 
-      // Convert back to Map structure
-      this.channelStats.clear();
-      for (const channel of serializableData) {
-        const emotesMap = new Map<string, EmoteStats>();
-        for (const emote of channel.emotes) {
-          emotesMap.set(emote.emoteName, emote);
-        }
+      if (!channels) {
+        console.log(`[StatisticsService] No existing statistics found in ${this.storage.description}, starting fresh`);
+        return;
+      }
 
-        this.channelStats.set(channel.channelName, {
-          channelName: channel.channelName,
-          totalMessages: channel.totalMessages,
-          totalEmotesUsed: channel.totalEmotesUsed,
-          emotes: emotesMap
-        });
+      this.channelStats.clear();
+      let migrated = false;
+      for (const channel of channels) {
+        this.channelStats.set(channel.channelName, channel);
+        migrated = this.migrateEmoteKeys(channel) || migrated;
       }
 
-      console.log(`[StatisticsService] Loaded statistics for ${this.channelStats.size} channel(s)`);
-      this.isDirty = false;
-    } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        console.log('[StatisticsService] No existing statistics file found, starting fresh');
-      } else {
-        console.error('[StatisticsService] Error loading statistics:', error);
+      console.log(`[StatisticsService] Loaded statistics for ${this.channelStats.size} channel(s) from ${this.storage.description}`);
+      this.changes = createChangeSet();
+      if (migrated) {
+        console.log('[StatisticsService] Migrated name-keyed emote statistics to emote IDs');
+        this.changes.fullRewrite = true;
       }
+      // Write restored or migrated data back right away so the primary file is valid again
+      this.isDirty = this.getRecoveryStatus() !== null || migrated;
+    } catch (error) {
+      if (!(error instanceof StatsRecoveryError)) {
+        console.error(`[StatisticsService] Could not read statistics from ${this.storage.description}, not starting so they aren't overwritten`);
+        throw error;
+      }
+      console.error('[StatisticsService] Error loading statistics, starting fresh:', error);
+    }
+
+    const recovery = this.getRecoveryStatus();
+    if (recovery && !recovery.restoredFrom) {
+      const preserved = recovery.corruptFile ? `, damaged file kept at ${recovery.corruptFile}` : '';
+      console.error(`[StatisticsService] Statistics could not be recovered (${recovery.reason})${preserved}`);
     }
   }
 
@@ -278,6 +985,7 @@ export class StatisticsService {
       await this.saveStats();
     }
 
+    await this.storage.close();
     console.log('[StatisticsService] Auto-save stopped');
   }
 }
@@ -0,0 +1,264 @@
+/**
+ * Retry and circuit breaker settings for upstream APIs
+ */
+export interface UpstreamOptions {
+  /** Attempts per request, including the first (1 disables retries) */
+  attempts: number;
+  /** Delay before the first retry; doubles with every further retry */
+  baseDelayMs: number;
+  /** Longest delay between retries, also the longest Retry-After that is waited for */
+  maxDelayMs: number;
+  /** Consecutive failed requests after which a host's circuit opens (0 disables the breaker) */
+  breakerThreshold: number;
+  /** How long an open circuit rejects requests before letting a trial request through */
+  breakerCooldownMs: number;
+}
+
+export const DEFAULT_UPSTREAM_OPTIONS: UpstreamOptions = {
+  attempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  breakerThreshold: 5,
+  breakerCooldownMs: 60000
+};
+
+/**
+ * Circuit state of an upstream host
+ * - closed: requests go through
+ * - open: requests fail right away until the cooldown or Retry-After has passed
+ * - half-open: one trial request decides whether the circuit closes or opens again
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health of an upstream host
+ */
+export interface UpstreamHealth {
+  host: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  /** When an open circuit lets the next request through */
+  retryAt: number | null;
+}
+
+/**
+ * Thrown instead of calling a host whose circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly host: string,
+    public readonly retryAt: number
+  ) {
+    super(`${host} is unavailable, retrying after ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Wraps calls to upstream APIs (7TV, BTTV, FFZ, Twitch) with retries and a circuit breaker per host
+ * Failed requests are retried with exponential backoff and full jitter; 429 and 503 responses
+ * wait for their Retry-After instead. A host that keeps failing is skipped until its cooldown
+ * has passed, so an outage doesn't stall every lookup on retries.
+ */
+export class UpstreamGuard {
+  private hosts: Map<string, UpstreamHealth> = new Map();
+  private trialInProgress: Set<string> = new Set();
+
+  constructor(private options: UpstreamOptions = DEFAULT_UPSTREAM_OPTIONS) {}
+
+  /**
+   * Fetches a URL, retrying network errors, 429 and 5xx responses
+   * Other responses, such as 404, are returned as they are.
+   * @returns The last response once retries are exhausted
+   * @throws {CircuitOpenError} If the host's circuit is open
+   */
+  async fetch(url: string, init?: RequestInit): Promise<Response> {
+    const host = new URL(url).host;
+
+    return this.execute(host, async () => {
+      let response: Response;
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        return { retry: true, error: error instanceof Error ? error.message : String(error), thrown: error };
+      }
+      if (response.status === 429 || response.status >= 500) {
+        return { retry: true, result: response, error: `HTTP ${response.status}`, retryAfterMs: this.parseRetryAfter(response) };
+      }
+      return { retry: false, result: response };
+    });
+  }
+
+  /**
+   * Runs a call to an upstream API client, retrying errors that aren't client errors
+   * @param host - Host the call goes to, for the circuit breaker
+   * @param task - The call
+   * @throws The last error once retries are exhausted, or CircuitOpenError if the host's circuit is open
+   */
+  async run<T>(host: string, task: () => Promise<T>): Promise<T> {
+    return this.execute(host, async () => {
+      try {
+        return { retry: false, result: await task() };
+      } catch (error: any) {
+        const status: number | undefined = error?.statusCode;
+        if (status !== undefined && status < 500 && status !== 429) {
+          throw error;
+        }
+        return { retry: true, error: error instanceof Error ? error.message : String(error), thrown: error };
+      }
+    });
+  }
+
+  /**
+   * Gets the health of every host that has been called
+   */
+  getHealth(): UpstreamHealth[] {
+    return Array.from(this.hosts.values(), health => ({ ...health, state: this.currentState(health) }));
+  }
+
+  /**
+   * Runs attempts until one succeeds, isn't retryable, or attempts run out
+   */
+  private async execute<T>(
+    host: string,
+    attempt: () => Promise<{ retry: boolean; result?: T; error?: string; retryAfterMs?: number | null; thrown?: unknown }>
+  ): Promise<T> {
+    const health = this.getOrCreateHealth(host);
+    const trial = this.acquire(health);
+
+    let outcome: Awaited<ReturnType<typeof attempt>> | null = null;
+    try {
+      for (let i = 0; i < Math.max(1, this.options.attempts); i++) {
+        if (i > 0) {
+          await new Promise(resolve => setTimeout(resolve, this.retryDelay(i, outcome?.retryAfterMs)));
+        }
+
+        outcome = await attempt();
+        if (!outcome.retry) {
+          this.recordSuccess(health);
+          return outcome.result as T;
+        }
+
+        // A Retry-After longer than we're willing to wait ends the request right away
+        if (outcome.retryAfterMs != null && outcome.retryAfterMs > this.options.maxDelayMs) {
+          break;
+        }
+      }
+    } catch (error) {
+      // Client errors mean the host is reachable
+      this.recordSuccess(health);
+      throw error;
+    } finally {
+      // Requests let through while the circuit was closed don't own the trial
+      if (trial) {
+        this.trialInProgress.delete(host);
+      }
+    }
+
+    this.recordFailure(health, outcome!.error ?? 'Request failed', outcome!.retryAfterMs);
+    if (outcome!.result !== undefined) {
+      return outcome!.result;
+    }
+    throw outcome!.thrown;
+  }
+
+  /**
+   * Lets a request through, or throws if the host's circuit is open
+   * After the cooldown only one trial request is let through until it completes.
+   * @returns Whether this request is the trial
+   */
+  private acquire(health: UpstreamHealth): boolean {
+    const state = this.currentState(health);
+    if (state === 'closed') return false;
+
+    if (state === 'half-open' && !this.trialInProgress.has(health.host)) {
+      this.trialInProgress.add(health.host);
+      return true;
+    }
+
+    throw new CircuitOpenError(health.host, Math.max(health.retryAt ?? 0, Date.now()));
+  }
+
+  private currentState(health: UpstreamHealth): CircuitState {
+    if (health.retryAt === null) return 'closed';
+    return Date.now() < health.retryAt ? 'open' : 'half-open';
+  }
+
+  private recordSuccess(health: UpstreamHealth): void {
+    if (health.retryAt !== null) {
+      console.log(`[UpstreamGuard] ${health.host} recovered`);
+    }
+    health.state = 'closed';
+    health.consecutiveFailures = 0;
+    health.retryAt = null;
+    health.lastSuccessAt = Date.now();
+  }
+
+  private recordFailure(health: UpstreamHealth, error: string, retryAfterMs?: number | null): void {
+    const now = Date.now();
+    health.consecutiveFailures++;
+    health.lastFailureAt = now;
+    health.lastError = error;
+
+    const threshold = this.options.breakerThreshold;
+    const tripped = threshold > 0 && health.consecutiveFailures >= threshold;
+    if (tripped || retryAfterMs != null) {
+      // The host asked us to back off, or keeps failing
+      const cooldown = Math.max(tripped ? this.options.breakerCooldownMs : 0, retryAfterMs ?? 0);
+      if (health.retryAt === null) {
+        console.warn(`[UpstreamGuard] ${health.host} is failing (${error}), pausing requests for ${Math.ceil(cooldown / 1000)}s`);
+      }
+      health.retryAt = now + cooldown;
+      health.state = 'open';
+    }
+  }
+
+  /**
+   * Delay before a retry: the server's Retry-After if it sent one, otherwise
+   * exponential backoff with full jitter
+   */
+  private retryDelay(retry: number, retryAfterMs?: number | null): number {
+    if (retryAfterMs != null) {
+      return retryAfterMs;
+    }
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** (retry - 1));
+    return Math.random() * ceiling;
+  }
+
+  /**
+   * Reads a Retry-After header in seconds or as an HTTP date
+   * @returns The delay in ms, or null without a valid header
+   */
+  private parseRetryAfter(response: Response): number | null {
+    const header = response.headers.get('Retry-After');
+    if (!header) return null;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return seconds * 1000;
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  private getOrCreateHealth(host: string): UpstreamHealth {
+    let health = this.hosts.get(host);
+    if (!health) {
+      health = {
+        host,
+        state: 'closed',
+        consecutiveFailures: 0,
+        lastSuccessAt: null,
+        lastFailureAt: null,
+        lastError: null,
+        retryAt: null
+      };
+      this.hosts.set(host, health);
+    }
+    return health;
+  }
+}
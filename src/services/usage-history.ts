@@ -0,0 +1,96 @@
+/**
+ * Time-bucketed usage counters
+ * Buckets are keyed by their start time (ms since epoch, UTC aligned)
+ */
+export interface UsageHistory {
+  hourly: Record<string, number>;
+  daily: Record<string, number>;
+}
+
+/**
+ * Time range for usage queries (ms since epoch, until is exclusive)
+ */
+export interface TimeWindow {
+  since?: number;
+  until?: number;
+}
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+// Hourly buckets are only kept for recent history, daily buckets for over a year
+export const HOURLY_RETENTION_MS = 7 * DAY_MS;
+export const DAILY_RETENTION_MS = 400 * DAY_MS;
+
+/**
+ * Creates an empty usage history
+ */
+export function createUsageHistory(): UsageHistory {
+  return { hourly: {}, daily: {} };
+}
+
+/**
+ * Adds usage to the hourly and daily buckets containing the timestamp
+ */
+export function recordUsage(history: UsageHistory, timestamp: number, amount: number = 1): void {
+  const hour = String(timestamp - (timestamp % HOUR_MS));
+  const day = String(timestamp - (timestamp % DAY_MS));
+
+  history.hourly[hour] = (history.hourly[hour] ?? 0) + amount;
+  history.daily[day] = (history.daily[day] ?? 0) + amount;
+}
+
+/**
+ * Sums usage within a time window
+ * Uses hourly buckets when the window is covered by hourly retention, daily buckets otherwise.
+ * Buckets partially overlapping the window are counted in full.
+ */
+export function countUsage(history: UsageHistory | undefined, window: TimeWindow, now: number = Date.now()): number {
+  if (!history) return 0;
+
+  const since = window.since ?? 0;
+  const until = window.until ?? Infinity;
+  const useHourly = since >= now - HOURLY_RETENTION_MS;
+  const buckets = useHourly ? history.hourly : history.daily;
+  const size = useHourly ? HOUR_MS : DAY_MS;
+
+  let total = 0;
+  for (const [start, count] of Object.entries(buckets)) {
+    const bucketStart = Number(start);
+    if (bucketStart + size > since && bucketStart < until) {
+      total += count;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Removes buckets older than the retention period
+ */
+export function pruneUsageHistory(history: UsageHistory, now: number = Date.now()): void {
+  for (const start of Object.keys(history.hourly)) {
+    if (Number(start) < now - HOURLY_RETENTION_MS - HOUR_MS) {
+      delete history.hourly[start];
+    }
+  }
+
+  for (const start of Object.keys(history.daily)) {
+    if (Number(start) < now - DAILY_RETENTION_MS - DAY_MS) {
+      delete history.daily[start];
+    }
+  }
+}
+
+/**
+ * Adds all buckets of one history to another
+ */
+export function mergeUsageHistory(target: UsageHistory, source: UsageHistory): void {
+  for (const [start, count] of Object.entries(source.hourly)) {
+    target.hourly[start] = (target.hourly[start] ?? 0) + count;
+  }
+
+  for (const [start, count] of Object.entries(source.daily)) {
+    target.daily[start] = (target.daily[start] ?? 0) + count;
+  }
+}
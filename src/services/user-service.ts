@@ -1,11 +1,24 @@
 import type { ApiClient } from '@twurple/api';
 import type { HelixUser } from '@twurple/api';
+import type { UpstreamGuard } from './upstream-guard';
+
+const TWITCH_API_HOST = 'api.twitch.tv';
 
 /**
  * Service for looking up Twitch user information
+ * Channel IDs can be configured up front, which skips their lookup. Without an API client
+ * (anonymous mode without client credentials) those are the only IDs that can be resolved.
  */
 export class UserService {
-  constructor(private apiClient: ApiClient) {}
+  private channelIds: Map<string, string>;
+
+  constructor(
+    private apiClient: ApiClient | null,
+    private upstream: UpstreamGuard | null = null,
+    channelIds: Record<string, string> = {}
+  ) {
+    this.channelIds = new Map(Object.entries(channelIds).map(([name, id]) => [name.toLowerCase(), id]));
+  }
 
   /**
    * Gets a user's ID by their username
@@ -14,14 +27,29 @@ export class UserService {
    */
   async getUserIdByName(username: string): Promise<string | null> {
     try {
-      const user = await this.apiClient.users.getUserByName(username);
-      return user?.id ?? null;
+      return await this.resolveUserId(username);
     } catch (error) {
       console.error(`[UserService] Error looking up user "${username}":`, error);
       return null;
     }
   }
 
+  /**
+   * Gets a user's ID by their username, without hiding failed lookups
+   * @param username - The Twitch username to look up
+   * @returns The user's ID or null if not found
+   * @throws If Twitch can't be reached, or the ID isn't configured and there is no API client
+   */
+  async resolveUserId(username: string): Promise<string | null> {
+    const configured = this.channelIds.get(username.toLowerCase());
+    if (configured) {
+      return configured;
+    }
+
+    const user = await this.call(api => api.users.getUserByName(username));
+    return user?.id ?? null;
+  }
+
   /**
    * Gets full user information by username
    * @param username - The Twitch username to look up
@@ -29,7 +57,7 @@ export class UserService {
    */
   async getUserByName(username: string): Promise<HelixUser | null> {
     try {
-      return await this.apiClient.users.getUserByName(username);
+      return await this.call(api => api.users.getUserByName(username));
     } catch (error) {
       console.error(`[UserService] Error looking up user "${username}":`, error);
       return null;
@@ -43,7 +71,7 @@ export class UserService {
    */
   async getUserById(userId: string): Promise<HelixUser | null> {
     try {
-      return await this.apiClient.users.getUserById(userId);
+      return await this.call(api => api.users.getUserById(userId));
     } catch (error) {
       console.error(`[UserService] Error looking up user ID "${userId}":`, error);
       return null;
@@ -57,10 +85,29 @@ export class UserService {
    */
   async getUsersByNames(usernames: string[]): Promise<HelixUser[]> {
     try {
-      return await this.apiClient.users.getUsersByNames(usernames);
+      return await this.call(api => api.users.getUsersByNames(usernames));
     } catch (error) {
       console.error(`[UserService] Error looking up users:`, error);
       return [];
     }
   }
+
+  /**
+   * Whether users can be looked up through the Twitch API
+   */
+  hasApiAccess(): boolean {
+    return this.apiClient !== null;
+  }
+
+  /**
+   * Calls the Twitch API with retries and the circuit breaker, if configured
+   * @throws If there is no API client
+   */
+  private async call<T>(task: (api: ApiClient) => Promise<T>): Promise<T> {
+    const api = this.apiClient;
+    if (!api) {
+      throw new Error('Twitch API lookups need TWITCH_CLIENT_ID and TWITCH_CLIENT_SECRET, or the channel in TWITCH_CHANNEL_IDS');
+    }
+    return this.upstream ? this.upstream.run(TWITCH_API_HOST, () => task(api)) : task(api);
+  }
 }
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { StatisticsService, type ChannelStats } from '../services/statistics-service';
+import { JsonStatsStorage } from './json-stats-storage';
+import { StatsRecoveryError } from './stats-storage';
+
+let dataDir: string;
+let statsFile: string;
+let backupDir: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'json-stats-'));
+  statsFile = path.join(dataDir, 'stats.json');
+  backupDir = path.join(dataDir, 'backups');
+  await fs.mkdir(backupDir);
+});
+
+afterEach(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+const channel = (channelName: string, totalMessages: number): ChannelStats => ({
+  channelName,
+  totalMessages,
+  totalEmotesUsed: 0,
+  emotes: new Map()
+});
+
+/**
+ * Writes a valid stats file holding one channel and returns its contents
+ */
+async function statsContents(channelName: string, totalMessages: number): Promise<string> {
+  const file = path.join(dataDir, 'scratch.json');
+  await new JsonStatsStorage(file, { count: 0, intervalMs: 0 }).save([channel(channelName, totalMessages)]);
+  const contents = await fs.readFile(file, 'utf-8');
+  await fs.unlink(file);
+  return contents;
+}
+
+const backup = (day: string) => path.join(backupDir, `stats-2024-01-${day}T00-00-00-000Z.json`);
+
+test('restores the newest valid backup when the stats file is truncated', async () => {
+  const newest = await statsContents('somechannel', 300);
+  await fs.writeFile(backup('01'), await statsContents('somechannel', 100));
+  await fs.writeFile(backup('02'), await statsContents('somechannel', 200));
+  await fs.writeFile(backup('03'), newest.slice(0, newest.length / 2));
+  await fs.writeFile(statsFile, newest.slice(0, 40));
+
+  const storage = new JsonStatsStorage(statsFile);
+  const channels = await storage.load();
+
+  expect(channels?.map(c => c.totalMessages)).toEqual([200]);
+  expect(storage.recovery).toMatchObject({ reason: expect.stringContaining('JSON'), restoredFrom: backup('02') });
+  // The damaged file is kept for inspection
+  expect(await fs.readFile(storage.recovery!.corruptFile!, 'utf-8')).toBe(newest.slice(0, 40));
+});
+
+test('reports an unrecoverable load when every backup is invalid', async () => {
+  const valid = await statsContents('somechannel', 100);
+  const tampered = valid.replace('"totalMessages": 100', '"totalMessages": 999');
+  await fs.writeFile(backup('01'), tampered);
+  await fs.writeFile(backup('02'), '{');
+  await fs.writeFile(statsFile, tampered);
+
+  const storage = new JsonStatsStorage(statsFile);
+  const error = await storage.load().catch(e => e);
+
+  expect(error).toBeInstanceOf(StatsRecoveryError);
+  expect(storage.recovery).toMatchObject({ reason: 'Checksum mismatch', restoredFrom: null });
+  expect(await fs.readFile(storage.recovery!.corruptFile!, 'utf-8')).toBe(tampered);
+  expect(await fs.readdir(backupDir)).toHaveLength(2);
+});
+
+test('refuses to start over a stats file that cannot be read', async () => {
+  const good = await statsContents('somechannel', 100);
+  await fs.writeFile(backup('01'), good);
+  // A directory in its place fails to read with EISDIR, like a permission or disk error would
+  await fs.mkdir(statsFile);
+
+  const storage = new JsonStatsStorage(statsFile, { count: 1, intervalMs: 0 });
+  const error = await storage.load().catch(e => e);
+  expect(error.code).toBe('EISDIR');
+  expect(storage.recovery).toBeNull();
+
+  const loadError = await new StatisticsService(storage).loadStats().catch(e => e);
+  expect(loadError.code).toBe('EISDIR');
+
+  // Nothing was moved aside, and the only backup is untouched
+  expect((await fs.stat(statsFile)).isDirectory()).toBe(true);
+  expect((await fs.readdir(dataDir)).sort()).toEqual(['backups', 'stats.json']);
+  expect(await fs.readFile(backup('01'), 'utf-8')).toBe(good);
+});
@@ -0,0 +1,339 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ChannelStats, ChatterStats, EmoteStats } from '../services/statistics-service';
+import { createUsageHistory, type UsageHistory } from '../services/usage-history';
+import { StatsRecoveryError, type StatsRecovery, type StatsStorage } from './stats-storage';
+
+/**
+ * Emote stats with the key they are stored under
+ * Files written before emotes were keyed by ID have no key; their emotes are keyed by name.
+ */
+type SerializableEmoteStats = EmoteStats & { key?: string };
+
+/**
+ * Serializable version of ChannelStats for JSON storage
+ */
+interface SerializableChannelStats {
+  channelName: string;
+  totalMessages: number;
+  totalEmotesUsed: number;
+  emotes: SerializableEmoteStats[];
+  messageHistory?: UsageHistory;
+  emoteHistory?: UsageHistory;
+  totalGlobalEmotesUsed?: number;
+  globalEmoteHistory?: UsageHistory;
+  chatters?: ChatterStats[];
+  ignoredMessages?: number;
+  trackingSince?: number;
+}
+
+/**
+ * On-disk file format. Files written before checksums were added are a bare channel array.
+ */
+interface StatsFile {
+  version: 2;
+  savedAt: number;
+  checksum: string;
+  channels: SerializableChannelStats[];
+}
+
+/**
+ * Backup rotation settings
+ */
+export interface JsonBackupOptions {
+  /** Number of backups to keep (0 disables backups) */
+  count: number;
+  /** Minimum time between two backups */
+  intervalMs: number;
+}
+
+const DEFAULT_BACKUP_OPTIONS: JsonBackupOptions = {
+  count: 10,
+  intervalMs: 60 * 60 * 1000
+};
+
+/**
+ * Stores all statistics in a single JSON file, rewritten on every save
+ * Writes go to a temporary file that is renamed over the original, rotating
+ * timestamped backups are kept next to it, and a checksum is verified on load.
+ * If the file is missing its data or fails validation, the newest valid backup is restored.
+ */
+export class JsonStatsStorage implements StatsStorage {
+  readonly description: string;
+  recovery: StatsRecovery | null = null;
+  private backupDir: string;
+  private backupPrefix: string;
+  private lastBackupAt: number | null = null;
+
+  constructor(
+    private statsFile: string = './data/statistics/stats.json',
+    private backupOptions: JsonBackupOptions = DEFAULT_BACKUP_OPTIONS
+  ) {
+    this.description = `JSON file ${statsFile}`;
+    this.backupDir = path.join(path.dirname(statsFile), 'backups');
+    this.backupPrefix = `${path.basename(statsFile, '.json')}-`;
+  }
+
+  /**
+   * Loads statistics from the JSON file, falling back to the newest valid backup
+   * Only missing or invalid data is recovered; a file that can't be read (e.g. EACCES or EIO) throws as is,
+   * since starting fresh would overwrite it and rotate the good backups out on the next save.
+   * @throws {StatsRecoveryError} If the data is damaged and no backup is valid
+   */
+  async load(): Promise<ChannelStats[] | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.statsFile, 'utf-8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+
+      // A missing file with backups present means the stats file was lost
+      const backups = await this.listBackups();
+      if (backups.length === 0) {
+        return null;
+      }
+      return this.recoverFromBackup(backups, 'Statistics file is missing', null);
+    }
+
+    try {
+      return this.parse(data);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`[JsonStatsStorage] ${this.statsFile} is unreadable: ${reason}`);
+
+      // Keep the damaged file for inspection instead of overwriting it on the next save
+      const corruptFile = `${this.statsFile}.corrupt-${this.fileTimestamp(Date.now())}`;
+      await fs.rename(this.statsFile, corruptFile);
+      console.error(`[JsonStatsStorage] Moved damaged file to ${corruptFile}`);
+
+      return this.recoverFromBackup(await this.listBackups(), reason, corruptFile);
+    }
+  }
+
+  /**
+   * Atomically rewrites the JSON file with all statistics and rotates backups
+   */
+  async save(channels: ChannelStats[]): Promise<void> {
+    // Ensure directory exists
+    await fs.mkdir(path.dirname(this.statsFile), { recursive: true });
+
+    // Convert Map to serializable format
+    const serializableData: SerializableChannelStats[] = channels.map(channel => ({
+      channelName: channel.channelName,
+      totalMessages: channel.totalMessages,
+      totalEmotesUsed: channel.totalEmotesUsed,
+      emotes: Array.from(channel.emotes, ([key, emote]) => ({ key, ...emote })),
+      messageHistory: channel.messageHistory,
+      emoteHistory: channel.emoteHistory,
+      totalGlobalEmotesUsed: channel.totalGlobalEmotesUsed,
+      globalEmoteHistory: channel.globalEmoteHistory,
+      chatters: channel.chatters ? Array.from(channel.chatters.values()) : undefined,
+      ignoredMessages: channel.ignoredMessages,
+      trackingSince: channel.trackingSince
+    }));
+
+    const savedAt = Date.now();
+    const contents = this.serialize(serializableData, savedAt);
+
+    // Write to a temp file and rename it over the original so a crash never leaves a partial file
+    const tempFile = `${this.statsFile}.tmp`;
+    const handle = await fs.open(tempFile, 'w');
+    try {
+      await handle.writeFile(contents, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempFile, this.statsFile);
+
+    await this.rotateBackups(savedAt);
+  }
+
+  /**
+   * Nothing to release for file storage
+   */
+  async close(): Promise<void> {}
+
+  /**
+   * Serializes channels into the checksummed file format
+   */
+  private serialize(channels: SerializableChannelStats[], savedAt: number): string {
+    const file: StatsFile = {
+      version: 2,
+      savedAt,
+      checksum: this.checksum(channels),
+      channels
+    };
+
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Parses and validates file contents
+   * @throws {Error} If the contents are not valid JSON, fail the checksum or have an unexpected shape
+   */
+  private parse(data: string): ChannelStats[] {
+    const parsed = JSON.parse(data) as StatsFile | SerializableChannelStats[];
+
+    let serializableData: SerializableChannelStats[];
+    if (Array.isArray(parsed)) {
+      // Legacy file without checksum
+      serializableData = parsed;
+    } else {
+      if (parsed?.version !== 2 || !Array.isArray(parsed.channels)) {
+        throw new Error('Unrecognized statistics file format');
+      }
+      if (this.checksum(parsed.channels) !== parsed.checksum) {
+        throw new Error('Checksum mismatch');
+      }
+      serializableData = parsed.channels;
+    }
+
+    this.validate(serializableData);
+
+    // Convert back to Map structure
+    return serializableData.map(channel => {
+      const emotesMap = new Map<string, EmoteStats>();
+      for (const { key, ...emote } of channel.emotes) {
+        emotesMap.set(key ?? emote.emoteName, emote);
+      }
+
+      return {
+        channelName: channel.channelName,
+        totalMessages: channel.totalMessages,
+        totalEmotesUsed: channel.totalEmotesUsed,
+        emotes: emotesMap,
+        messageHistory: channel.messageHistory ?? createUsageHistory(),
+        emoteHistory: channel.emoteHistory ?? createUsageHistory(),
+        totalGlobalEmotesUsed: channel.totalGlobalEmotesUsed,
+        globalEmoteHistory: channel.globalEmoteHistory,
+        chatters: channel.chatters
+          ? new Map(channel.chatters.map(chatter => [chatter.userId, chatter]))
+          : undefined,
+        ignoredMessages: channel.ignoredMessages,
+        trackingSince: channel.trackingSince
+      };
+    });
+  }
+
+  /**
+   * Checks that parsed channels have the expected structure
+   * @throws {Error} Describing the first invalid entry
+   */
+  private validate(channels: SerializableChannelStats[]): void {
+    for (const channel of channels) {
+      if (
+        typeof channel?.channelName !== 'string' ||
+        typeof channel.totalMessages !== 'number' ||
+        typeof channel.totalEmotesUsed !== 'number' ||
+        !Array.isArray(channel.emotes) ||
+        (channel.chatters !== undefined && !Array.isArray(channel.chatters))
+      ) {
+        throw new Error('Invalid channel entry');
+      }
+
+      for (const emote of channel.emotes) {
+        if (typeof emote?.emoteName !== 'string' || typeof emote.count !== 'number') {
+          throw new Error(`Invalid emote entry in channel ${channel.channelName}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Computes the checksum of the serialized channel data
+   */
+  private checksum(channels: SerializableChannelStats[]): string {
+    return createHash('sha256').update(JSON.stringify(channels)).digest('hex');
+  }
+
+  /**
+   * Restores statistics from the newest backup that passes validation
+   * @param backups - Backup file paths, newest first
+   * @param reason - Why the primary file could not be used
+   * @param corruptFile - Where the damaged primary file was moved, if any
+   * @throws {StatsRecoveryError} If no backup is valid
+   * @throws If a backup can't be read
+   */
+  private async recoverFromBackup(
+    backups: string[],
+    reason: string,
+    corruptFile: string | null
+  ): Promise<ChannelStats[]> {
+    for (const backup of backups) {
+      const data = await fs.readFile(backup, 'utf-8');
+      try {
+        const channels = this.parse(data);
+
+        this.recovery = { recoveredAt: Date.now(), reason, restoredFrom: backup, corruptFile };
+        console.warn(`[JsonStatsStorage] Recovered statistics from backup ${backup} (${reason})`);
+        return channels;
+      } catch (error) {
+        console.error(`[JsonStatsStorage] Backup ${backup} is unusable:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    this.recovery = { recoveredAt: Date.now(), reason, restoredFrom: null, corruptFile };
+    throw new StatsRecoveryError(`No valid statistics backup found (${reason})`);
+  }
+
+  /**
+   * Copies the freshly written file into the backup directory when the interval has passed,
+   * then deletes backups beyond the configured count
+   */
+  private async rotateBackups(savedAt: number): Promise<void> {
+    if (this.backupOptions.count <= 0) {
+      return;
+    }
+
+    const backups = await this.listBackups();
+    if (this.lastBackupAt === null && backups.length > 0) {
+      const newest = await fs.stat(backups[0]!);
+      this.lastBackupAt = newest.mtimeMs;
+    }
+
+    if (this.lastBackupAt !== null && savedAt - this.lastBackupAt < this.backupOptions.intervalMs) {
+      return;
+    }
+
+    await fs.mkdir(this.backupDir, { recursive: true });
+    const backupFile = path.join(this.backupDir, `${this.backupPrefix}${this.fileTimestamp(savedAt)}.json`);
+    await fs.copyFile(this.statsFile, backupFile);
+    this.lastBackupAt = savedAt;
+
+    const expired = [backupFile, ...backups].slice(this.backupOptions.count);
+    for (const file of expired) {
+      await fs.unlink(file);
+    }
+  }
+
+  /**
+   * Lists backup files, newest first
+   */
+  private async listBackups(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.backupDir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    // Timestamps in the file names sort chronologically
+    return files
+      .filter(file => file.startsWith(this.backupPrefix) && file.endsWith('.json'))
+      .sort()
+      .reverse()
+      .map(file => path.join(this.backupDir, file));
+  }
+
+  /**
+   * Formats a timestamp for use in file names
+   */
+  private fileTimestamp(timestamp: number): string {
+    return new Date(timestamp).toISOString().replace(/[:.]/g, '-');
+  }
+}
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { StatisticsService } from '../services/statistics-service';
+import { JsonStatsStorage } from './json-stats-storage';
+import { SqliteStatsStorage } from './sqlite-stats-storage';
+
+let dataDir: string;
+let jsonFile: string;
+let dbFile: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-stats-'));
+  jsonFile = path.join(dataDir, 'stats.json');
+  dbFile = path.join(dataDir, 'stats.db');
+});
+
+afterEach(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+test('reports a stats.json restored from backup during the import', async () => {
+  await new JsonStatsStorage(jsonFile, { count: 1, intervalMs: 0 })
+    .save([{ channelName: 'somechannel', totalMessages: 100, totalEmotesUsed: 0, emotes: new Map() }]);
+  await fs.writeFile(jsonFile, '{"version": 2');
+
+  const storage = new SqliteStatsStorage(dbFile, jsonFile);
+  const service = new StatisticsService(storage);
+  await service.loadStats();
+
+  expect(service.getAllStats().map(c => c.totalMessages)).toEqual([100]);
+  expect(service.getRecoveryStatus()?.restoredFrom).toContain(path.join(dataDir, 'backups'));
+  await storage.close();
+});
+
+test('loads the database when stats.json cannot be imported, and marks the import as attempted', async () => {
+  const seeded = new SqliteStatsStorage(dbFile, path.join(dataDir, 'missing.json'));
+  await seeded.load();
+  await seeded.save(
+    [{ channelName: 'somechannel', totalMessages: 42, totalEmotesUsed: 0, emotes: new Map() }],
+    { channels: new Set(['somechannel']), emotes: new Map(), chatters: new Map(), fullRewrite: true }
+  );
+  await seeded.close();
+
+  // As on a database created before the import ran, with a stats.json that fails to read
+  const db = new Database(dbFile);
+  db.run("DELETE FROM meta WHERE key = 'json_imported_at'");
+  db.close();
+  await fs.mkdir(jsonFile);
+
+  const storage = new SqliteStatsStorage(dbFile, jsonFile);
+  expect((await storage.load())?.map(c => c.totalMessages)).toEqual([42]);
+  await storage.close();
+
+  const check = new Database(dbFile);
+  expect(check.query("SELECT value FROM meta WHERE key = 'json_imported_at'").get()).not.toBeNull();
+  check.close();
+});
@@ -0,0 +1,600 @@
+import { Database } from 'bun:sqlite';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EmoteSource } from '../providers/emote-provider';
+import type { ChannelStats, ChatterStats, EmoteStats } from '../services/statistics-service';
+import {
+  DAILY_RETENTION_MS,
+  DAY_MS,
+  HOURLY_RETENTION_MS,
+  HOUR_MS,
+  createUsageHistory,
+  type UsageHistory
+} from '../services/usage-history';
+import { JsonStatsStorage } from './json-stats-storage';
+import type { StatsChangeSet, StatsRecovery, StatsStorage } from './stats-storage';
+
+/**
+ * Schema migrations, applied in order and tracked with PRAGMA user_version
+ */
+const MIGRATIONS: string[] = [
+  `CREATE TABLE meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE channels (
+    channel_name TEXT PRIMARY KEY,
+    total_messages INTEGER NOT NULL DEFAULT 0,
+    total_emotes_used INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE emotes (
+    channel_name TEXT NOT NULL,
+    emote_name TEXT NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    last_used INTEGER NOT NULL,
+    emote_id TEXT,
+    image_url TEXT,
+    animated INTEGER,
+    PRIMARY KEY (channel_name, emote_name)
+  );
+  CREATE TABLE channel_buckets (
+    channel_name TEXT NOT NULL,
+    series TEXT NOT NULL,
+    granularity TEXT NOT NULL,
+    bucket_start INTEGER NOT NULL,
+    count INTEGER NOT NULL,
+    PRIMARY KEY (channel_name, series, granularity, bucket_start)
+  );
+  CREATE TABLE emote_buckets (
+    channel_name TEXT NOT NULL,
+    emote_name TEXT NOT NULL,
+    granularity TEXT NOT NULL,
+    bucket_start INTEGER NOT NULL,
+    count INTEGER NOT NULL,
+    PRIMARY KEY (channel_name, emote_name, granularity, bucket_start)
+  );
+  CREATE INDEX emote_buckets_by_start ON emote_buckets (granularity, bucket_start);`,
+  `CREATE TABLE chatters (
+    channel_name TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    user_name TEXT NOT NULL,
+    display_name TEXT NOT NULL,
+    total_emotes INTEGER NOT NULL DEFAULT 0,
+    last_seen INTEGER NOT NULL,
+    PRIMARY KEY (channel_name, user_id)
+  );
+  CREATE TABLE chatter_emotes (
+    channel_name TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    emote_name TEXT NOT NULL,
+    count INTEGER NOT NULL,
+    PRIMARY KEY (channel_name, user_id, emote_name)
+  );`,
+  `ALTER TABLE emotes ADD COLUMN reach_sketch TEXT;`,
+  `ALTER TABLE emotes ADD COLUMN message_count INTEGER;
+  ALTER TABLE emotes ADD COLUMN instance_count INTEGER;`,
+  `ALTER TABLE emotes ADD COLUMN suppressed_count INTEGER;`,
+  `ALTER TABLE channels ADD COLUMN ignored_messages INTEGER;`,
+  // Emotes are keyed by emote ID; existing rows keep their name as key until the next load re-keys them
+  `ALTER TABLE emotes RENAME COLUMN emote_name TO emote_key;
+  ALTER TABLE emotes ADD COLUMN emote_name TEXT;
+  UPDATE emotes SET emote_name = emote_key;
+  ALTER TABLE emotes ADD COLUMN alias_history TEXT;
+  ALTER TABLE emote_buckets RENAME COLUMN emote_name TO emote_key;
+  ALTER TABLE chatter_emotes RENAME COLUMN emote_name TO emote_key;`,
+  `ALTER TABLE channels ADD COLUMN total_global_emotes_used INTEGER;
+  ALTER TABLE emotes ADD COLUMN is_global INTEGER;`,
+  `ALTER TABLE emotes ADD COLUMN provider TEXT;`,
+  `ALTER TABLE channels ADD COLUMN tracking_since INTEGER;`
+];
+
+type Granularity = 'hour' | 'day';
+type ChannelSeries = 'messages' | 'emotes' | 'global-emotes';
+
+interface ChannelRow {
+  channel_name: string;
+  total_messages: number;
+  total_emotes_used: number;
+  ignored_messages: number | null;
+  total_global_emotes_used: number | null;
+  tracking_since: number | null;
+}
+
+interface EmoteRow {
+  channel_name: string;
+  emote_key: string;
+  emote_name: string;
+  count: number;
+  last_used: number;
+  emote_id: string | null;
+  image_url: string | null;
+  animated: number | null;
+  reach_sketch: string | null;
+  message_count: number | null;
+  instance_count: number | null;
+  suppressed_count: number | null;
+  alias_history: string | null;
+  is_global: number | null;
+  provider: string | null;
+}
+
+interface ChatterRow {
+  channel_name: string;
+  user_id: string;
+  user_name: string;
+  display_name: string;
+  total_emotes: number;
+  last_seen: number;
+}
+
+interface ChatterEmoteRow {
+  channel_name: string;
+  user_id: string;
+  emote_key: string;
+  count: number;
+}
+
+interface BucketRow {
+  channel_name: string;
+  series?: ChannelSeries;
+  emote_key?: string;
+  granularity: Granularity;
+  bucket_start: number;
+  count: number;
+}
+
+/**
+ * Stores statistics in a SQLite database, upserting only what changed since the last save
+ */
+export class SqliteStatsStorage implements StatsStorage {
+  readonly description: string;
+  /** Set when the imported stats.json had to be recovered */
+  recovery: StatsRecovery | null = null;
+  private db: Database | null = null;
+  // Buckets starting before this (minus their size) can't have changed since the last save
+  private lastSavedAt = 0;
+
+  /**
+   * @param dbFile - Path to the SQLite database file
+   * @param legacyJsonFile - stats.json file imported once when the database is first created
+   */
+  constructor(
+    private dbFile: string = './data/statistics/stats.db',
+    private legacyJsonFile: string = './data/statistics/stats.json'
+  ) {
+    this.description = `SQLite database ${dbFile}`;
+  }
+
+  /**
+   * Loads all statistics from the database, importing stats.json on first use
+   * The import is only attempted once: if the file can't be imported, the database is used without it.
+   */
+  async load(): Promise<ChannelStats[] | null> {
+    const db = await this.open();
+
+    if (!this.getMeta('json_imported_at')) {
+      try {
+        await this.importJsonStats(this.legacyJsonFile);
+      } catch (error) {
+        console.error(`[SqliteStatsStorage] Could not import ${this.legacyJsonFile}, continuing without it (retry with bun run import-stats):`, error);
+        this.setMeta('json_imported_at', String(Date.now()));
+      }
+    }
+
+    const channelRows = db.query('SELECT * FROM channels').all() as ChannelRow[];
+    if (channelRows.length === 0) {
+      return null;
+    }
+
+    const channels = new Map<string, ChannelStats>();
+    for (const row of channelRows) {
+      channels.set(row.channel_name, {
+        channelName: row.channel_name,
+        totalMessages: row.total_messages,
+        totalEmotesUsed: row.total_emotes_used,
+        ignoredMessages: row.ignored_messages ?? undefined,
+        totalGlobalEmotesUsed: row.total_global_emotes_used ?? undefined,
+        trackingSince: row.tracking_since ?? undefined,
+        emotes: new Map(),
+        messageHistory: createUsageHistory(),
+        emoteHistory: createUsageHistory()
+      });
+    }
+
+    for (const row of db.query('SELECT * FROM emotes').all() as EmoteRow[]) {
+      const channel = channels.get(row.channel_name);
+      if (!channel) continue;
+
+      channel.emotes.set(row.emote_key, {
+        emoteName: row.emote_name,
+        count: row.count,
+        lastUsed: row.last_used,
+        channel: row.channel_name,
+        emoteId: row.emote_id ?? undefined,
+        imageUrl: row.image_url ?? undefined,
+        animated: row.animated === null ? undefined : row.animated === 1,
+        messageCount: row.message_count ?? undefined,
+        instanceCount: row.instance_count ?? undefined,
+        suppressedCount: row.suppressed_count ?? undefined,
+        global: row.is_global === 1 || undefined,
+        provider: (row.provider as EmoteSource | null) ?? undefined,
+        history: createUsageHistory(),
+        reachSketch: row.reach_sketch ? JSON.parse(row.reach_sketch) : undefined,
+        aliasHistory: row.alias_history ? JSON.parse(row.alias_history) : undefined
+      });
+    }
+
+    for (const row of db.query('SELECT * FROM channel_buckets').all() as BucketRow[]) {
+      const channel = channels.get(row.channel_name);
+      if (!channel) continue;
+
+      let history: UsageHistory;
+      if (row.series === 'messages') {
+        history = channel.messageHistory!;
+      } else if (row.series === 'global-emotes') {
+        history = channel.globalEmoteHistory ??= createUsageHistory();
+      } else {
+        history = channel.emoteHistory!;
+      }
+      this.setBucket(history, row);
+    }
+
+    for (const row of db.query('SELECT * FROM emote_buckets').all() as BucketRow[]) {
+      const emote = channels.get(row.channel_name)?.emotes.get(row.emote_key!);
+      if (emote) {
+        this.setBucket(emote.history!, row);
+      }
+    }
+
+    for (const row of db.query('SELECT * FROM chatters').all() as ChatterRow[]) {
+      const channel = channels.get(row.channel_name);
+      if (!channel) continue;
+
+      channel.chatters ??= new Map();
+      channel.chatters.set(row.user_id, {
+        userId: row.user_id,
+        userName: row.user_name,
+        displayName: row.display_name,
+        totalEmotes: row.total_emotes,
+        lastSeen: row.last_seen,
+        emotes: {}
+      });
+    }
+
+    for (const row of db.query('SELECT * FROM chatter_emotes').all() as ChatterEmoteRow[]) {
+      const chatter = channels.get(row.channel_name)?.chatters?.get(row.user_id);
+      if (chatter) {
+        chatter.emotes[row.emote_key] = row.count;
+      }
+    }
+
+    this.lastSavedAt = Date.now();
+    return Array.from(channels.values());
+  }
+
+  /**
+   * Upserts changed channels and emotes
+   */
+  async save(channels: ChannelStats[], changes: StatsChangeSet): Promise<void> {
+    const db = await this.open();
+    const savedAt = Date.now();
+
+    db.transaction(() => {
+      if (changes.fullRewrite) {
+        this.deleteAll();
+        this.writeChannels(channels, 0);
+      } else {
+        const changedChannels = channels.filter(channel =>
+          changes.channels.has(channel.channelName) ||
+          changes.emotes.has(channel.channelName) ||
+          changes.chatters.has(channel.channelName)
+        );
+
+        for (const channel of changedChannels) {
+          this.writeChannel(channel, changes.emotes.get(channel.channelName) ?? new Set(), this.lastSavedAt);
+          this.writeChatters(channel, changes.chatters.get(channel.channelName) ?? new Set());
+        }
+      }
+
+      this.pruneBuckets(savedAt);
+    })();
+
+    this.lastSavedAt = savedAt;
+  }
+
+  /**
+   * Closes the database
+   */
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Imports an existing stats.json file, replacing the database contents
+   * @param jsonFile - Path to the stats.json file
+   * @returns Number of imported channels, or null if the file doesn't exist
+   * @throws If the file can't be read, or is damaged and no backup is valid
+   */
+  async importJsonStats(jsonFile: string): Promise<number | null> {
+    const db = await this.open();
+    const importer = new JsonStatsStorage(jsonFile);
+    let channels: ChannelStats[] | null;
+    try {
+      channels = await importer.load();
+    } finally {
+      // A restore from backup, or the damaged file being set aside, is reported like the JSON backend's own
+      this.recovery = importer.recovery;
+    }
+
+    db.transaction(() => {
+      if (channels) {
+        this.deleteAll();
+        this.writeChannels(channels, 0);
+      }
+      this.setMeta('json_imported_at', String(Date.now()));
+    })();
+
+    if (channels) {
+      console.log(`[SqliteStatsStorage] Imported ${channels.length} channel(s) from ${jsonFile}`);
+    }
+
+    return channels?.length ?? null;
+  }
+
+  /**
+   * Opens the database and applies pending migrations
+   */
+  private async open(): Promise<Database> {
+    if (this.db) {
+      return this.db;
+    }
+
+    await fs.mkdir(path.dirname(this.dbFile), { recursive: true });
+
+    const db = new Database(this.dbFile, { create: true });
+    db.run('PRAGMA journal_mode = WAL');
+
+    const { user_version: version } = db.query('PRAGMA user_version').get() as { user_version: number };
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      db.transaction(() => {
+        db.run(MIGRATIONS[i]!);
+        db.run(`PRAGMA user_version = ${i + 1}`);
+      })();
+    }
+
+    this.db = db;
+    return db;
+  }
+
+  /**
+   * Writes every emote of the given channels
+   */
+  private writeChannels(channels: ChannelStats[], bucketsSince: number): void {
+    for (const channel of channels) {
+      this.writeChannel(channel, new Set(channel.emotes.keys()), bucketsSince);
+      this.writeChatters(channel, new Set(channel.chatters?.keys()));
+    }
+  }
+
+  /**
+   * Upserts the given chatters of a channel with their emote counts
+   */
+  private writeChatters(channel: ChannelStats, userIds: Set<string>): void {
+    const db = this.db!;
+    const upsertChatter = db.query(`
+      INSERT INTO chatters (channel_name, user_id, user_name, display_name, total_emotes, last_seen)
+      VALUES ($channel, $userId, $userName, $displayName, $totalEmotes, $lastSeen)
+      ON CONFLICT (channel_name, user_id) DO UPDATE SET
+        user_name = excluded.user_name,
+        display_name = excluded.display_name,
+        total_emotes = excluded.total_emotes,
+        last_seen = excluded.last_seen
+    `);
+    const upsertEmote = db.query(`
+      INSERT INTO chatter_emotes (channel_name, user_id, emote_key, count)
+      VALUES ($channel, $userId, $emoteKey, $count)
+      ON CONFLICT (channel_name, user_id, emote_key) DO UPDATE SET
+        count = excluded.count
+    `);
+
+    for (const userId of userIds) {
+      const chatter: ChatterStats | undefined = channel.chatters?.get(userId);
+      if (!chatter) continue;
+
+      upsertChatter.run({
+        $channel: channel.channelName,
+        $userId: chatter.userId,
+        $userName: chatter.userName,
+        $displayName: chatter.displayName,
+        $totalEmotes: chatter.totalEmotes,
+        $lastSeen: chatter.lastSeen
+      });
+
+      for (const [emoteKey, count] of Object.entries(chatter.emotes)) {
+        upsertEmote.run({
+          $channel: channel.channelName,
+          $userId: chatter.userId,
+          $emoteKey: emoteKey,
+          $count: count
+        });
+      }
+    }
+  }
+
+  /**
+   * Upserts a channel, the given emotes and their recently changed buckets
+   */
+  private writeChannel(channel: ChannelStats, emoteKeys: Set<string>, bucketsSince: number): void {
+    const db = this.db!;
+
+    db.query(`
+      INSERT INTO channels (channel_name, total_messages, total_emotes_used, ignored_messages, total_global_emotes_used, tracking_since)
+      VALUES ($channel, $messages, $emotes, $ignored, $globalEmotes, $trackingSince)
+      ON CONFLICT (channel_name) DO UPDATE SET
+        total_messages = excluded.total_messages,
+        total_emotes_used = excluded.total_emotes_used,
+        ignored_messages = excluded.ignored_messages,
+        total_global_emotes_used = excluded.total_global_emotes_used,
+        tracking_since = excluded.tracking_since
+    `).run({
+      $channel: channel.channelName,
+      $messages: channel.totalMessages,
+      $emotes: channel.totalEmotesUsed,
+      $ignored: channel.ignoredMessages ?? null,
+      $globalEmotes: channel.totalGlobalEmotesUsed ?? null,
+      $trackingSince: channel.trackingSince ?? null
+    });
+
+    this.writeChannelBuckets(channel.channelName, 'messages', channel.messageHistory, bucketsSince);
+    this.writeChannelBuckets(channel.channelName, 'emotes', channel.emoteHistory, bucketsSince);
+    this.writeChannelBuckets(channel.channelName, 'global-emotes', channel.globalEmoteHistory, bucketsSince);
+
+    const upsertEmote = db.query(`
+      INSERT INTO emotes (
+        channel_name, emote_key, emote_name, count, last_used, emote_id, image_url, animated,
+        reach_sketch, message_count, instance_count, suppressed_count, alias_history, is_global, provider
+      )
+      VALUES (
+        $channel, $key, $name, $count, $lastUsed, $emoteId, $imageUrl, $animated,
+        $reachSketch, $messageCount, $instanceCount, $suppressedCount, $aliasHistory, $global, $provider
+      )
+      ON CONFLICT (channel_name, emote_key) DO UPDATE SET
+        emote_name = excluded.emote_name,
+        count = excluded.count,
+        last_used = excluded.last_used,
+        emote_id = excluded.emote_id,
+        image_url = excluded.image_url,
+        animated = excluded.animated,
+        reach_sketch = excluded.reach_sketch,
+        message_count = excluded.message_count,
+        instance_count = excluded.instance_count,
+        suppressed_count = excluded.suppressed_count,
+        alias_history = excluded.alias_history,
+        is_global = excluded.is_global,
+        provider = excluded.provider
+    `);
+    const upsertBucket = db.query(`
+      INSERT INTO emote_buckets (channel_name, emote_key, granularity, bucket_start, count)
+      VALUES ($channel, $key, $granularity, $start, $count)
+      ON CONFLICT (channel_name, emote_key, granularity, bucket_start) DO UPDATE SET
+        count = excluded.count
+    `);
+
+    for (const emoteKey of emoteKeys) {
+      const emote: EmoteStats | undefined = channel.emotes.get(emoteKey);
+      if (!emote) continue;
+
+      upsertEmote.run({
+        $channel: channel.channelName,
+        $key: emoteKey,
+        $name: emote.emoteName,
+        $count: emote.count,
+        $lastUsed: emote.lastUsed,
+        $emoteId: emote.emoteId ?? null,
+        $imageUrl: emote.imageUrl ?? null,
+        $animated: emote.animated === undefined ? null : emote.animated ? 1 : 0,
+        $reachSketch: emote.reachSketch ? JSON.stringify(emote.reachSketch) : null,
+        $messageCount: emote.messageCount ?? null,
+        $instanceCount: emote.instanceCount ?? null,
+        $suppressedCount: emote.suppressedCount ?? null,
+        $aliasHistory: emote.aliasHistory ? JSON.stringify(emote.aliasHistory) : null,
+        $global: emote.global ? 1 : null,
+        $provider: emote.provider ?? null
+      });
+
+      for (const [granularity, start, count] of this.changedBuckets(emote.history, bucketsSince)) {
+        upsertBucket.run({
+          $channel: channel.channelName,
+          $key: emoteKey,
+          $granularity: granularity,
+          $start: start,
+          $count: count
+        });
+      }
+    }
+  }
+
+  /**
+   * Upserts recently changed buckets of a channel-level series
+   */
+  private writeChannelBuckets(
+    channelName: string,
+    series: ChannelSeries,
+    history: UsageHistory | undefined,
+    bucketsSince: number
+  ): void {
+    const upsertBucket = this.db!.query(`
+      INSERT INTO channel_buckets (channel_name, series, granularity, bucket_start, count)
+      VALUES ($channel, $series, $granularity, $start, $count)
+      ON CONFLICT (channel_name, series, granularity, bucket_start) DO UPDATE SET
+        count = excluded.count
+    `);
+
+    for (const [granularity, start, count] of this.changedBuckets(history, bucketsSince)) {
+      upsertBucket.run({
+        $channel: channelName,
+        $series: series,
+        $granularity: granularity,
+        $start: start,
+        $count: count
+      });
+    }
+  }
+
+  /**
+   * Lists buckets that may have changed since the given time
+   */
+  private changedBuckets(history: UsageHistory | undefined, since: number): Array<[Granularity, number, number]> {
+    if (!history) return [];
+
+    const buckets: Array<[Granularity, number, number]> = [];
+    for (const [start, count] of Object.entries(history.hourly)) {
+      if (Number(start) + HOUR_MS > since) buckets.push(['hour', Number(start), count]);
+    }
+    for (const [start, count] of Object.entries(history.daily)) {
+      if (Number(start) + DAY_MS > since) buckets.push(['day', Number(start), count]);
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Deletes buckets that fell out of retention
+   */
+  private pruneBuckets(now: number): void {
+    for (const table of ['channel_buckets', 'emote_buckets']) {
+      this.db!.query(`DELETE FROM ${table} WHERE granularity = 'hour' AND bucket_start < ?`)
+        .run(now - HOURLY_RETENTION_MS - HOUR_MS);
+      this.db!.query(`DELETE FROM ${table} WHERE granularity = 'day' AND bucket_start < ?`)
+        .run(now - DAILY_RETENTION_MS - DAY_MS);
+    }
+  }
+
+  /**
+   * Deletes all statistics, keeping metadata
+   */
+  private deleteAll(): void {
+    for (const table of ['channels', 'emotes', 'channel_buckets', 'emote_buckets', 'chatters', 'chatter_emotes']) {
+      this.db!.run(`DELETE FROM ${table}`);
+    }
+  }
+
+  /**
+   * Restores a bucket row into a usage history
+   */
+  private setBucket(history: UsageHistory, row: BucketRow): void {
+    const buckets = row.granularity === 'hour' ? history.hourly : history.daily;
+    buckets[String(row.bucket_start)] = row.count;
+  }
+
+  private getMeta(key: string): string | null {
+    const row = this.db!.query('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | null;
+    return row?.value ?? null;
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.db!.query('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value')
+      .run(key, value);
+  }
+}
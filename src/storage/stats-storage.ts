@@ -0,0 +1,109 @@
+import path from 'path';
+import type { ChannelStats } from '../services/statistics-service';
+import { JsonStatsStorage, type JsonBackupOptions } from './json-stats-storage';
+import { SqliteStatsStorage } from './sqlite-stats-storage';
+
+/**
+ * Available storage backends
+ */
+export type StatsStorageBackend = 'json' | 'sqlite';
+
+/**
+ * Describes what changed since the last successful save
+ */
+export interface StatsChangeSet {
+  /** Channels whose totals or history changed */
+  channels: Set<string>;
+  /** Changed emote keys, keyed by channel */
+  emotes: Map<string, Set<string>>;
+  /** Changed chatter user IDs, keyed by channel */
+  chatters: Map<string, Set<string>>;
+  /** Whether all statistics must be rewritten (after they were cleared or emotes were re-keyed) */
+  fullRewrite: boolean;
+}
+
+/**
+ * Describes a recovery performed while loading statistics
+ */
+export interface StatsRecovery {
+  /** When the recovery happened */
+  recoveredAt: number;
+  /** Why the primary data could not be used */
+  reason: string;
+  /** Backup the statistics were restored from, or null if nothing could be restored */
+  restoredFrom: string | null;
+  /** Where the damaged primary data was moved, if anywhere */
+  corruptFile: string | null;
+}
+
+/**
+ * Thrown when stored statistics are damaged and no backup could be restored
+ * The damaged data has been set aside, so starting with empty statistics doesn't overwrite it.
+ */
+export class StatsRecoveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatsRecoveryError';
+  }
+}
+
+/**
+ * Persistence backend for emote usage statistics
+ */
+export interface StatsStorage {
+  /**
+   * Human readable description used in log messages
+   */
+  readonly description: string;
+
+  /**
+   * Set when the last load had to recover from damaged or missing data
+   */
+  readonly recovery?: StatsRecovery | null;
+
+  /**
+   * Loads all channel statistics
+   * @returns The stored channels, or null if nothing has been stored yet
+   * @throws {StatsRecoveryError} If the data is damaged beyond recovery; any other error means it couldn't be read
+   */
+  load(): Promise<ChannelStats[] | null>;
+
+  /**
+   * Persists channel statistics
+   * @param channels - All current channel statistics
+   * @param changes - What changed since the last save, for backends that write incrementally
+   */
+  save(channels: ChannelStats[], changes: StatsChangeSet): Promise<void>;
+
+  /**
+   * Releases any resources held by the backend
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Creates an empty change set
+ */
+export function createChangeSet(): StatsChangeSet {
+  return { channels: new Set(), emotes: new Map(), chatters: new Map(), fullRewrite: false };
+}
+
+/**
+ * Creates the storage backend selected in the configuration
+ * @param backend - Backend name from STATS_STORAGE
+ * @param backups - Backup rotation settings for the JSON backend
+ * @param dataDir - Directory holding the statistics files
+ */
+export function createStatsStorage(
+  backend: StatsStorageBackend,
+  backups?: JsonBackupOptions,
+  dataDir: string = './data/statistics'
+): StatsStorage {
+  const jsonFile = path.join(dataDir, 'stats.json');
+
+  if (backend === 'sqlite') {
+    return new SqliteStatsStorage(path.join(dataDir, 'stats.db'), jsonFile);
+  }
+
+  return new JsonStatsStorage(jsonFile, backups);
+}
@@ -1,17 +1,90 @@
-import type { StatisticsService } from '../services/statistics-service';
+import { createHash, timingSafeEqual } from 'crypto';
+import type { OAuthFlow } from '../auth/oauth-flow';
+import { OAuthError } from '../auth/twitch-oauth';
+import { ChannelChangeError, type ChannelChange, type ChannelChangeFailure, type TwitchChatBot } from '../bot';
+import type { ChannelSettingsManager } from '../config/channel-settings';
+import type { EmoteImageSize, EmoteSource } from '../providers/emote-provider';
+import { emoteKey, parseEmoteKey, type StatisticsService } from '../services/statistics-service';
 import type { EmoteService } from '../services/emote-service';
+import { EmoteImageCache } from '../services/emote-image-cache';
+import type { EmoteChangeQuery } from '../services/emote-change-log';
+import {
+  DEFAULT_STALE_CRITERIA,
+  StaleEmoteService,
+  type StaleEmoteCriteria
+} from '../services/stale-emote-service';
+import type { UpstreamGuard } from '../services/upstream-guard';
+import { DAY_MS, HOUR_MS, type TimeWindow } from '../services/usage-history';
+
+/**
+ * Served in place of emote images that can't be fetched
+ */
+const PLACEHOLDER_IMAGE = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 28 28">'
+  + '<rect x="1" y="1" width="26" height="26" rx="4" fill="none" stroke="#888" stroke-width="2" stroke-dasharray="4 3"/>'
+  + '<text x="14" y="19" font-family="sans-serif" font-size="14" fill="#888" text-anchor="middle">?</text></svg>';
+
+/**
+ * Decodes a URL path segment
+ * @returns The decoded segment, or null if it has a malformed escape
+ */
+function safeDecode(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decodes every captured path segment of a route match
+ * @returns The segments, or null if one has a malformed escape
+ */
+function decodeParams(match: RegExpMatchArray): string[] | null {
+  const params = match.slice(1).map(segment => safeDecode(segment!));
+  return params.every(param => param !== null) ? params as string[] : null;
+}
+
+/**
+ * Escapes text for the server-rendered sign-in pages
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Joins and leaves channels for the channel management endpoints
+ */
+export type ChannelManager = Pick<TwitchChatBot, 'getChannels' | 'joinChannel' | 'partChannel'>;
+
+const CHANNEL_CHANGE_STATUS: Record<ChannelChangeFailure, number> = {
+  'invalid': 400,
+  'not-found': 404,
+  'already-tracked': 409,
+  'not-tracked': 404
+};
 
 /**
  * Web dashboard server
  */
 export class DashboardServer {
   private server: any;
+  private staleEmoteService: StaleEmoteService;
+  private imageCache: EmoteImageCache;
 
   constructor(
     private statisticsService: StatisticsService,
     private emoteService: EmoteService,
-    private port: number = 3000
-  ) {}
+    private channelSettings: ChannelSettingsManager,
+    private upstream: UpstreamGuard,
+    private channels: ChannelManager,
+    private port: number = 3000,
+    staleCriteria: StaleEmoteCriteria = DEFAULT_STALE_CRITERIA,
+    private apiToken: string | null = null,
+    private auth: OAuthFlow | null = null
+  ) {
+    this.staleEmoteService = new StaleEmoteService(emoteService, statisticsService, staleCriteria);
+    this.imageCache = new EmoteImageCache(emoteService, url => upstream.fetch(url));
+  }
 
   /**
    * Starts the web server
@@ -33,7 +106,115 @@ export class DashboardServer {
 
     // API endpoint for statistics
     if (url.pathname === '/api/stats') {
-      return this.handleStatsAPI();
+      const window = this.parseTimeWindow(url.searchParams);
+      if (window === null) {
+        return this.jsonError('Invalid time window', 400);
+      }
+      return this.handleStatsAPI(window);
+    }
+
+    // Emote cache counters
+    if (url.pathname === '/api/emote-cache') {
+      return this.handleEmoteCacheAPI();
+    }
+
+    // Upstream API health
+    if (url.pathname === '/api/health') {
+      return this.handleHealthAPI();
+    }
+
+    // Emote images, served from the local cache
+    const imageMatch = url.pathname.match(/^\/img\/([^/]+)\/([1-4]x)$/);
+    if (imageMatch) {
+      const key = safeDecode(imageMatch[1]!);
+      if (key === null) {
+        return this.jsonError('Invalid URL encoding', 400);
+      }
+      return this.handleEmoteImage(req, key, imageMatch[2] as EmoteImageSize);
+    }
+
+    // Tracked channels; changes require the API token
+    if (url.pathname === '/api/channels') {
+      if (req.method === 'GET') {
+        return this.json({ channels: this.channels.getChannels() });
+      }
+      if (req.method === 'POST') {
+        return this.authorize(req, 'Channel management') ?? this.handleJoinChannelAPI(req);
+      }
+      return this.jsonError('Method not allowed', 405);
+    }
+
+    const channelMatch = url.pathname.match(/^\/api\/channels\/([^/]+)$/);
+    if (channelMatch) {
+      if (req.method !== 'DELETE') {
+        return this.jsonError('Method not allowed', 405);
+      }
+      const channel = safeDecode(channelMatch[1]!);
+      if (channel === null) {
+        return this.jsonError('Invalid URL encoding', 400);
+      }
+      return this.authorize(req, 'Channel management') ?? this.handlePartChannelAPI(channel);
+    }
+
+    // Token status
+    if (url.pathname === '/api/auth') {
+      return this.json(this.getAuthStatus());
+    }
+
+    // Sign-in; starting one requires the API token, the callback is checked against the login's state
+    if (url.pathname.startsWith('/auth/')) {
+      return this.handleAuthRoute(req, url);
+    }
+
+    // Per-chatter statistics
+    const userMatch = url.pathname.match(/^\/api\/channels\/([^/]+)\/users\/([^/]+)$/);
+    if (userMatch) {
+      const params = decodeParams(userMatch);
+      if (!params) {
+        return this.jsonError('Invalid URL encoding', 400);
+      }
+      return this.handleUserStatsAPI(params[0]!, params[1]!);
+    }
+
+    const emoteChattersMatch = url.pathname.match(/^\/api\/channels\/([^/]+)\/emotes\/([^/]+)\/chatters$/);
+    if (emoteChattersMatch) {
+      const limit = Number(url.searchParams.get('limit') ?? 10);
+      if (!Number.isInteger(limit) || limit <= 0) {
+        return this.jsonError('Invalid limit', 400);
+      }
+      const params = decodeParams(emoteChattersMatch);
+      if (!params) {
+        return this.jsonError('Invalid URL encoding', 400);
+      }
+      return this.handleEmoteChattersAPI(params[0]!, params[1]!, limit);
+    }
+
+    // Removal candidates
+    const staleMatch = url.pathname.match(/^\/api\/channels\/([^/]+)\/stale$/);
+    if (staleMatch) {
+      const criteria = this.parseStaleCriteria(url.searchParams);
+      if (criteria === null) {
+        return this.jsonError('Invalid stale emote criteria', 400);
+      }
+      const channel = safeDecode(staleMatch[1]!);
+      if (channel === null) {
+        return this.jsonError('Invalid URL encoding', 400);
+      }
+      return this.handleStaleEmotesAPI(channel, criteria);
+    }
+
+    // Emote set change log
+    const changesMatch = url.pathname.match(/^\/api\/channels\/([^/]+)\/changes$/);
+    if (changesMatch) {
+      const query = this.parseChangeQuery(url.searchParams);
+      if (query === null) {
+        return this.jsonError('Invalid change log query', 400);
+      }
+      const channel = safeDecode(changesMatch[1]!);
+      if (channel === null) {
+        return this.jsonError('Invalid URL encoding', 400);
+      }
+      return this.handleEmoteChangesAPI(channel, query);
     }
 
     // Main dashboard page
@@ -41,7 +222,7 @@ export class DashboardServer {
       return new Response(this.getHTML(), {
         headers: {
           'Content-Type': 'text/html',
-          'Content-Security-Policy': "default-src 'self'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; img-src 'self' https://cdn.7tv.app; connect-src 'self'",
+          'Content-Security-Policy': "default-src 'self'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; img-src 'self'; connect-src 'self'",
         },
       });
     }
@@ -49,48 +230,500 @@ export class DashboardServer {
     return new Response('Not Found', { status: 404 });
   }
 
+  /**
+   * Parses a time window from query parameters
+   * Accepts `days` or `hours` relative to now, or explicit `since`/`until` (ms timestamps or ISO dates)
+   * @returns The window, undefined for all-time, or null if the parameters are invalid
+   */
+  private parseTimeWindow(params: URLSearchParams): TimeWindow | undefined | null {
+    const days = params.get('days');
+    const hours = params.get('hours');
+    const since = params.get('since');
+    const until = params.get('until');
+
+    if (!days && !hours && !since && !until) {
+      return undefined;
+    }
+
+    const window: TimeWindow = {};
+
+    if (days || hours) {
+      const amount = Number(days ?? hours);
+      if (!Number.isFinite(amount) || amount <= 0) return null;
+      window.since = Date.now() - amount * (days ? DAY_MS : HOUR_MS);
+    }
+
+    for (const [key, value] of [['since', since], ['until', until]] as const) {
+      if (!value) continue;
+      const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+      if (Number.isNaN(timestamp)) return null;
+      window[key] = timestamp;
+    }
+
+    if (window.since !== undefined && window.until !== undefined && window.since >= window.until) {
+      return null;
+    }
+
+    return window;
+  }
+
+  /**
+   * Parses stale emote criteria overrides from query parameters
+   * @returns The overrides, or null if a parameter is not a non-negative number
+   */
+  private parseStaleCriteria(params: URLSearchParams): Partial<StaleEmoteCriteria> | null {
+    const criteria: Partial<StaleEmoteCriteria> = {};
+
+    for (const key of ['unusedDays', 'minUsesPer1000', 'graceDays'] as const) {
+      const raw = params.get(key);
+      if (raw === null || raw === '') continue;
+      const value = Number(raw);
+      if (!Number.isFinite(value) || value < 0) return null;
+      criteria[key] = value;
+    }
+
+    return criteria;
+  }
+
+  /**
+   * Parses change log filters from query parameters
+   * Accepts `limit` and `since` (ms timestamp or ISO date)
+   * @returns The query, or null if a parameter is invalid
+   */
+  private parseChangeQuery(params: URLSearchParams): EmoteChangeQuery | null {
+    const query: EmoteChangeQuery = {};
+
+    const limit = params.get('limit');
+    if (limit) {
+      query.limit = Number(limit);
+      if (!Number.isInteger(query.limit) || query.limit <= 0) return null;
+    }
+
+    const since = params.get('since');
+    if (since) {
+      query.since = /^\d+$/.test(since) ? Number(since) : Date.parse(since);
+      if (Number.isNaN(query.since)) return null;
+    }
+
+    return query;
+  }
+
+  /**
+   * Checks a write request's bearer token
+   * @param feature - What the token unlocks, for the error when none is configured
+   * @returns An error response, or null if the request is authorized
+   */
+  private authorize(req: Request, feature: string): Response | null {
+    if (!this.apiToken) {
+      return this.jsonError(`${feature} is disabled (set DASHBOARD_API_TOKEN)`, 403);
+    }
+
+    const header = req.headers.get('Authorization') ?? '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+    // Compare digests so the comparison takes as long whatever the token's length
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    if (!token || !timingSafeEqual(digest(token), digest(this.apiToken))) {
+      const response = this.jsonError('Missing or invalid API token', 401);
+      response.headers.set('WWW-Authenticate', 'Bearer');
+      return response;
+    }
+
+    return null;
+  }
+
+  /**
+   * Creates a JSON error response
+   */
+  private jsonError(message: string, status: number): Response {
+    return new Response(JSON.stringify({ error: message }), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  /**
+   * Creates a JSON response
+   */
+  private json(data: unknown): Response {
+    return new Response(JSON.stringify(data), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  /**
+   * Returns a chatter's emote usage in a channel
+   */
+  private handleUserStatsAPI(channel: string, user: string): Response {
+    if (!this.statisticsService.isTrackingChatters()) {
+      return this.jsonError('Per-chatter tracking is disabled (set TRACK_CHATTERS=true)', 404);
+    }
+
+    const userStats = this.statisticsService.getUserStats(channel, user);
+    if (!userStats) {
+      return this.jsonError(`No emote usage recorded for ${user} in ${channel}`, 404);
+    }
+
+    return this.json(userStats);
+  }
+
+  /**
+   * Returns the chatters who used an emote the most in a channel
+   */
+  private handleEmoteChattersAPI(channel: string, emoteName: string, limit: number): Response {
+    if (!this.statisticsService.isTrackingChatters()) {
+      return this.jsonError('Per-chatter tracking is disabled (set TRACK_CHATTERS=true)', 404);
+    }
+
+    return this.json({
+      channel: channel.toLowerCase(),
+      emoteName,
+      chatters: this.statisticsService.getTopChattersForEmote(channel, emoteName, limit)
+    });
+  }
+
+  /**
+   * Returns the removal-candidate report for a channel
+   */
+  private handleStaleEmotesAPI(channel: string, criteria: Partial<StaleEmoteCriteria>): Response {
+    const report = this.staleEmoteService.getReport(channel, criteria);
+    if (!report) {
+      return this.jsonError(`No emotes loaded for ${channel}`, 404);
+    }
+
+    return this.json(report);
+  }
+
+  /**
+   * Serves an emote image by emote key, or a placeholder if it can't be fetched
+   * Cached images never change, so browsers may keep them for a week and revalidate them by ETag.
+   */
+  private async handleEmoteImage(req: Request, key: string, size: EmoteImageSize): Promise<Response> {
+    const parsed = parseEmoteKey(key);
+    const image = parsed && this.isKnownEmote(key, parsed.provider, parsed.emoteId)
+      ? await this.imageCache.getImage(parsed.provider, parsed.emoteId, size)
+      : null;
+    if (!image) {
+      // Short-lived, so the image is tried again once the CDN is back
+      return new Response(PLACEHOLDER_IMAGE, {
+        headers: { 'Content-Type': 'image/svg+xml', 'Cache-Control': 'public, max-age=60' },
+      });
+    }
+
+    const headers = {
+      'Content-Type': image.contentType,
+      'Cache-Control': 'public, max-age=604800, immutable',
+      'ETag': image.etag,
+      'X-Content-Type-Options': 'nosniff',
+    };
+    const ifNoneMatch = req.headers.get('If-None-Match');
+    if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim() === image.etag)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    return new Response(image.body, { headers });
+  }
+
+  /**
+   * Whether an emote is in a loaded set or has recorded uses
+   * Only those are proxied, so the image endpoint can't be used to fill the disk with arbitrary CDN images.
+   */
+  private isKnownEmote(key: string, source: EmoteSource, emoteId: string): boolean {
+    return (source !== 'twitch' && this.emoteService.hasEmote(source, emoteId)) || this.statisticsService.hasEmote(key);
+  }
+
+  /**
+   * Starts tracking the channel named in the request body (`{ "channel": "name" }`)
+   */
+  private async handleJoinChannelAPI(req: Request): Promise<Response> {
+    let body: { channel?: unknown };
+    try {
+      body = await req.json() as { channel?: unknown };
+    } catch {
+      return this.jsonError('Invalid JSON body', 400);
+    }
+    if (typeof body?.channel !== 'string') {
+      return this.jsonError('Missing channel', 400);
+    }
+
+    return this.changeChannel(() => this.channels.joinChannel(body.channel as string), 201);
+  }
+
+  /**
+   * Stops tracking a channel
+   */
+  private handlePartChannelAPI(channel: string): Promise<Response> {
+    return this.changeChannel(() => this.channels.partChannel(channel), 200);
+  }
+
+  /**
+   * Runs a channel join or part and responds with the updated channel list
+   * If the list couldn't be saved the change still went through, so it's reported as a warning.
+   */
+  private async changeChannel(change: () => Promise<ChannelChange>, status: number): Promise<Response> {
+    try {
+      const { channel, saveError } = await change();
+      const body: { channel: string; channels: string[]; warning?: string } = { channel, channels: this.channels.getChannels() };
+      if (saveError) {
+        body.warning = `Could not save the channel list, the change only lasts until the bot restarts: ${saveError}`;
+      }
+      return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      if (error instanceof ChannelChangeError) {
+        return this.jsonError(error.message, CHANNEL_CHANGE_STATUS[error.reason]);
+      }
+      console.error('[Dashboard] Error changing channels:', error);
+      const reason = error instanceof Error ? `: ${error.message}` : '';
+      return this.jsonError(`Could not look the channel up on Twitch${reason}`, 502);
+    }
+  }
+
+  /**
+   * Routes the sign-in endpoints
+   */
+  private async handleAuthRoute(req: Request, url: URL): Promise<Response> {
+    if (!this.auth) {
+      return this.jsonError('Signing in is not available in anonymous mode', 404);
+    }
+
+    // The API token stays in the header; the returned URL only works once
+    if (url.pathname === '/auth/login') {
+      if (req.method !== 'POST') {
+        return this.jsonError('Method not allowed', 405);
+      }
+      return this.authorize(req, 'Signing in from the dashboard') ?? this.noStore(this.json({ url: this.auth.beginLogin() }));
+    }
+
+    if (url.pathname === '/auth/callback') {
+      return this.handleLoginCallback(this.auth, url.searchParams);
+    }
+
+    if (url.pathname === '/auth/device') {
+      if (req.method === 'POST') {
+        return this.authorize(req, 'Signing in from the dashboard') ?? this.handleStartDeviceFlow(this.auth);
+      }
+      if (req.method === 'GET') {
+        const status = this.auth.getDeviceFlowStatus();
+        return this.authorize(req, 'Signing in from the dashboard')
+          ?? (status ? this.json(status) : this.jsonError('No device code sign-in was started', 404));
+      }
+      return this.jsonError('Method not allowed', 405);
+    }
+
+    return new Response('Not Found', { status: 404 });
+  }
+
+  /**
+   * Finishes an authorization code sign-in when Twitch redirects back
+   */
+  private async handleLoginCallback(auth: OAuthFlow, params: URLSearchParams): Promise<Response> {
+    const error = params.get('error');
+    if (error) {
+      return this.authPage('Sign-in cancelled', params.get('error_description') ?? error, 400);
+    }
+
+    const code = params.get('code');
+    const state = params.get('state');
+    if (!code || !state) {
+      return this.authPage('Sign-in failed', 'The redirect from Twitch is missing its code or state.', 400);
+    }
+
+    try {
+      const { userName, userId } = await auth.completeLogin(code, state);
+      return this.authPage(
+        'Signed in',
+        `Saved the token for ${userName ?? userId} to data/tokens. The bot uses it from its next chat connection and refreshes it automatically.`,
+        200
+      );
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        return this.authPage('Sign-in failed', error.message, 400);
+      }
+      console.error('[Dashboard] Error completing sign-in:', error);
+      return this.authPage('Sign-in failed', 'Twitch could not be reached, try again.', 502);
+    }
+  }
+
+  /**
+   * Starts a device code sign-in and returns the code to enter on Twitch
+   */
+  private async handleStartDeviceFlow(auth: OAuthFlow): Promise<Response> {
+    try {
+      const status = await auth.startDeviceFlow();
+      return new Response(JSON.stringify(status), {
+        status: 202,
+        headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+      });
+    } catch (error) {
+      console.error('[Dashboard] Error starting device code sign-in:', error);
+      const reason = error instanceof Error ? `: ${error.message}` : '';
+      return this.jsonError(`Could not start a device code sign-in${reason}`, 502);
+    }
+  }
+
+  /**
+   * Renders the result of a browser sign-in
+   */
+  private authPage(title: string, message: string, status: number): Response {
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title)}</title>
+  <style>body { font-family: system-ui, sans-serif; max-width: 32rem; margin: 4rem auto; padding: 0 1rem; line-height: 1.5; }</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${escapeHtml(message)}</p>
+  <p><a href="/">Back to the dashboard</a></p>
+</body>
+</html>`;
+    return new Response(html, {
+      status,
+      headers: {
+        'Content-Type': 'text/html',
+        'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+        'Cache-Control': 'no-store',
+        // The callback URL carries the authorization code
+        'Referrer-Policy': 'no-referrer',
+      },
+    });
+  }
+
+  /**
+   * Marks a response as not cacheable
+   */
+  private noStore(response: Response): Response {
+    response.headers.set('Cache-Control', 'no-store');
+    return response;
+  }
+
+  /**
+   * Describes how the bot signs in to Twitch, without the token itself
+   */
+  private getAuthStatus() {
+    return {
+      anonymous: this.auth === null,
+      token: this.auth?.getTokenStatus() ?? null
+    };
+  }
+
+  /**
+   * Returns the emote cache counters and each channel's cache entry
+   */
+  private handleEmoteCacheAPI(): Response {
+    return this.json({
+      ...this.emoteService.getCacheStats(),
+      channels: this.emoteService.getChannelCacheStatus()
+    });
+  }
+
+  /**
+   * Returns the circuit state of each upstream host and each channel's last request results
+   */
+  private handleHealthAPI(): Response {
+    return this.json({
+      hosts: this.upstream.getHealth(),
+      channels: this.statisticsService.getAllStats().map(channel => ({
+        channel: channel.channelName,
+        upstreams: this.emoteService.getUpstreamStatus(channel.channelName)
+      }))
+    });
+  }
+
+  /**
+   * Returns a channel's emote set changes, newest first
+   */
+  private handleEmoteChangesAPI(channel: string, query: EmoteChangeQuery): Response {
+    const changeLog = this.emoteService.getChangeLog();
+    if (!changeLog) {
+      return this.jsonError('Emote set changes are not being recorded', 404);
+    }
+
+    return this.json({
+      channel: channel.toLowerCase(),
+      changes: changeLog.getChanges(channel, query)
+    });
+  }
+
   /**
    * Returns statistics as JSON with all available emotes
+   * @param window - Optional time window for usage counts
    */
-  private handleStatsAPI(): Response {
-    const stats = this.statisticsService.exportStats();
+  private handleStatsAPI(window?: TimeWindow): Response {
+    const stats = this.statisticsService.exportStats(window);
 
     // Enhance channel data with all available emotes (including unused ones)
     const enhancedChannels = stats.channels.map(channel => {
+      const { showGlobalEmotes } = this.channelSettings.forChannel(channel.channelName);
+      const usedEmotes = showGlobalEmotes ? channel.emotes : channel.emotes.filter(e => !e.global);
+      const visibleChannel = {
+        ...channel,
+        totalGlobalEmotesUsed: showGlobalEmotes ? channel.totalGlobalEmotesUsed : undefined,
+        staleEmoteList: this.emoteService.getStaleEmoteList(channel.channelName) ?? undefined,
+        upstreams: this.emoteService.getUpstreamStatus(channel.channelName),
+        emotes: usedEmotes
+      };
+
       const allEmotesMetadata = this.emoteService.getAllEmoteMetadata(channel.channelName);
 
       if (!allEmotesMetadata) {
-        return channel;
+        return visibleChannel;
       }
 
       // Create a map of used emotes
-      const usedEmotesMap = new Map(channel.emotes.map(e => [e.emoteName, e]));
+      const usedEmotesMap = new Map(usedEmotes.map(e => [emoteKey(e.emoteId, e.emoteName, e.provider), e]));
 
       // Merge all available emotes with usage data
       const allEmotes = Array.from(allEmotesMetadata.values()).map(metadata => {
-        const usedEmote = usedEmotesMap.get(metadata.name);
+        const key = emoteKey(metadata.id, metadata.name, metadata.provider);
+        const usedEmote = usedEmotesMap.get(key);
         return {
           emoteName: metadata.name,
           count: usedEmote?.count ?? 0,
+          reach: usedEmote?.reach ?? 0,
+          messageCount: usedEmote?.messageCount,
+          instanceCount: usedEmote?.instanceCount,
+          suppressedCount: usedEmote?.suppressedCount,
           lastUsed: usedEmote?.lastUsed ?? 0,
           channel: channel.channelName,
           emoteId: metadata.id,
           imageUrl: metadata.imageUrl,
-          animated: metadata.animated
+          animated: metadata.animated,
+          provider: metadata.provider,
+          shadows: metadata.shadows,
+          aliasHistory: usedEmote?.aliasHistory
         };
       });
 
+      // Global and native Twitch emotes aren't part of the channel's set, so only used ones are listed
+      const channelEmoteKeys = new Set(
+        Array.from(allEmotesMetadata.values(), metadata => emoteKey(metadata.id, metadata.name, metadata.provider))
+      );
+      const otherEmotes = usedEmotes.filter(e =>
+        (e.global || e.provider === 'twitch') && !channelEmoteKeys.has(emoteKey(e.emoteId, e.emoteName, e.provider))
+      );
+
       return {
-        ...channel,
-        emotes: allEmotes.sort((a, b) => b.count - a.count)
+        ...visibleChannel,
+        emotes: [...allEmotes, ...otherEmotes].sort((a, b) => b.count - a.count)
       };
     });
 
-    return new Response(JSON.stringify({
+    const providers: EmoteSource[] = this.emoteService.getProviderNames();
+    if (stats.channels.some(channel => this.channelSettings.forChannel(channel.channelName).trackTwitchEmotes)) {
+      providers.push('twitch');
+    }
+
+    return this.json({
       ...stats,
-      channels: enhancedChannels
-    }), {
-      headers: { 'Content-Type': 'application/json' },
+      channels: enhancedChannels,
+      providers,
+      upstreamHosts: this.upstream.getHealth(),
+      auth: this.getAuthStatus(),
+      topEmotes: stats.topEmotes.filter(e => !e.global || this.channelSettings.forChannel(e.channel).showGlobalEmotes)
     });
   }
 
@@ -146,6 +779,7 @@ export class DashboardServer {
       --color-accent-hover: #60a5fa;
       --color-accent-muted: rgba(59, 130, 246, 0.15);
       --color-success: #66bb6a;
+      --color-warning: #ffa726;
       --color-error: #ef5350;
       --color-badge-used: #3b82f6;
       --color-badge-unused: rgba(255, 255, 255, 0.15);
@@ -174,6 +808,7 @@ export class DashboardServer {
       --color-accent-hover: #3b82f6;
       --color-accent-muted: rgba(37, 99, 235, 0.1);
       --color-success: #16a34a;
+      --color-warning: #d97706;
       --color-error: #dc2626;
       --color-badge-used: #2563eb;
       --color-badge-unused: rgba(0, 0, 0, 0.08);
@@ -222,6 +857,27 @@ export class DashboardServer {
 
     .subtitle { font-size: var(--font-size-lg); color: var(--color-text-secondary); }
 
+    .upstream-status {
+      display: flex;
+      justify-content: center;
+      flex-wrap: wrap;
+      gap: var(--space-sm);
+      margin-top: var(--space-md);
+    }
+    .upstream-pill {
+      display: inline-flex;
+      align-items: center;
+      gap: var(--space-xs);
+      padding: 2px var(--space-sm);
+      border: 1px solid var(--color-border);
+      border-radius: var(--radius-sm);
+      color: var(--color-text-secondary);
+      font-size: var(--font-size-xs);
+    }
+    .upstream-dot { width: 8px; height: 8px; border-radius: 50%; background: var(--color-success); }
+    .upstream-pill--degraded .upstream-dot { background: var(--color-warning); }
+    .upstream-pill--down .upstream-dot { background: var(--color-error); }
+
     /* Controls bar */
     .controls-bar {
       display: flex;
@@ -286,6 +942,18 @@ export class DashboardServer {
     }
     .btn:hover { background: var(--color-bg-card-hover); border-color: var(--color-border-hover); }
     .btn:disabled { opacity: 0.5; cursor: not-allowed; }
+    .select {
+      padding: var(--space-sm) var(--space-md);
+      border: 1px solid var(--color-border);
+      border-radius: var(--radius-sm);
+      background: var(--color-bg-input);
+      color: var(--color-text-primary);
+      font-size: var(--font-size-sm);
+      cursor: pointer;
+      outline: none;
+    }
+    .select:focus { border-color: var(--color-accent); }
+    .select option { background: var(--color-bg-secondary); color: var(--color-text-primary); }
     .theme-toggle-btn {
       display: flex;
       align-items: center;
@@ -310,6 +978,71 @@ export class DashboardServer {
     }
     @keyframes spin { to { transform: rotate(360deg); } }
 
+    /* Alerts */
+    .alert {
+      padding: var(--space-md) var(--space-lg);
+      border-radius: var(--radius-md);
+      border: 1px solid var(--color-border);
+      border-left: 4px solid var(--color-warning);
+      background: var(--color-bg-card);
+      margin-bottom: var(--space-xl);
+      font-size: var(--font-size-sm);
+      color: var(--color-text-secondary);
+    }
+    .alert strong { color: var(--color-text-primary); }
+    .alert--error { border-left-color: var(--color-error); }
+
+    /* Tabs */
+    .tabs {
+      display: flex;
+      gap: var(--space-sm);
+      margin-bottom: var(--space-xl);
+      border-bottom: 1px solid var(--color-border);
+    }
+    .tab {
+      padding: var(--space-sm) var(--space-md);
+      background: none;
+      border: none;
+      border-bottom: 2px solid transparent;
+      color: var(--color-text-secondary);
+      font-size: var(--font-size-sm);
+      font-weight: 600;
+      cursor: pointer;
+      margin-bottom: -1px;
+    }
+    .tab:hover { color: var(--color-text-primary); }
+    .tab--active { color: var(--color-accent); border-bottom-color: var(--color-accent); }
+    .number-input {
+      width: 80px;
+      padding: var(--space-sm);
+      border: 1px solid var(--color-border);
+      border-radius: var(--radius-sm);
+      background: var(--color-bg-input);
+      color: var(--color-text-primary);
+      font-size: var(--font-size-sm);
+      outline: none;
+    }
+    .number-input:focus { border-color: var(--color-accent); }
+    .reason-tag {
+      display: inline-block;
+      padding: 2px var(--space-sm);
+      margin-right: var(--space-xs);
+      border-radius: var(--radius-sm);
+      background: var(--color-accent-muted);
+      color: var(--color-text-primary);
+      font-size: var(--font-size-xs);
+    }
+    .timeline { list-style: none; margin: 0; padding: 0; }
+    .timeline-item {
+      display: flex;
+      align-items: baseline;
+      gap: var(--space-md);
+      padding: var(--space-sm) 0;
+      border-bottom: 1px solid var(--color-border);
+    }
+    .timeline-time { min-width: 160px; color: var(--color-text-muted); font-size: var(--font-size-sm); }
+    .timeline-actor { margin-left: auto; color: var(--color-text-muted); font-size: var(--font-size-xs); }
+
     /* Stats grid */
     .stats-grid {
       display: grid;
@@ -367,6 +1100,16 @@ export class DashboardServer {
       font-weight: bold;
       color: var(--color-accent);
     }
+    .stale-list-tag {
+      margin-left: var(--space-sm);
+      padding: 2px var(--space-sm);
+      border: 1px solid var(--color-warning);
+      border-radius: var(--radius-sm);
+      color: var(--color-warning);
+      font-size: var(--font-size-xs);
+      font-weight: normal;
+      vertical-align: middle;
+    }
     .channel-stats { display: flex; gap: var(--space-xl); font-size: var(--font-size-base); }
     .channel-stat { display: flex; flex-direction: column; align-items: center; }
     .channel-stat-value { font-size: var(--font-size-2xl); font-weight: bold; color: var(--color-text-primary); }
@@ -577,6 +1320,15 @@ export class DashboardServer {
       to { background: transparent; }
     }
 
+    .alias-note { color: var(--color-text-muted); font-size: var(--font-size-xs); }
+    .emote-tag {
+      margin-left: var(--space-xs);
+      padding: 1px var(--space-xs);
+      border: 1px solid var(--color-border);
+      border-radius: var(--radius-sm);
+      color: var(--color-text-muted);
+      font-size: var(--font-size-xs);
+    }
     .emote-table-image { width: 28px; height: 28px; object-fit: contain; vertical-align: middle; }
     .emote-table-link {
       color: var(--color-accent);
@@ -632,6 +1384,61 @@ export class DashboardServer {
       to { opacity: 0; transform: translateY(20px); }
     }
 
+    .btn--small { padding: var(--space-xs) var(--space-sm); font-size: var(--font-size-xs); }
+
+    /* Modal */
+    .modal-overlay {
+      position: fixed;
+      inset: 0;
+      background: rgba(0, 0, 0, 0.5);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      z-index: 900;
+      padding: var(--space-md);
+    }
+    .modal {
+      background: var(--color-bg-secondary);
+      border: 1px solid var(--color-border);
+      border-radius: var(--radius-lg);
+      box-shadow: var(--shadow-elevated);
+      width: 100%;
+      max-width: 480px;
+      max-height: 80vh;
+      overflow-y: auto;
+      padding: var(--space-lg);
+    }
+    .modal-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: var(--space-md);
+      margin-bottom: var(--space-md);
+    }
+    .modal-header h3 { font-size: var(--font-size-lg); word-break: break-word; }
+    .chatter-list { list-style: none; }
+    .chatter-item {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: var(--space-md);
+      padding: var(--space-sm) 0;
+      border-top: 1px solid var(--color-border);
+      font-size: var(--font-size-sm);
+    }
+    .chatter-link {
+      background: none;
+      border: none;
+      padding: 0;
+      color: var(--color-accent);
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      text-align: left;
+    }
+    .chatter-link:hover { text-decoration: underline; color: var(--color-accent-hover); }
+    .chatter-share { color: var(--color-text-muted); }
+
     /* Tablet */
     @media (max-width: 1024px) {
       .stats-grid { grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); }
@@ -672,6 +1479,8 @@ export class DashboardServer {
     <header>
       <h1>SmokeyBot Dashboard</h1>
       <div class="subtitle">7TV Emote Statistics Tracker</div>
+      <div class="upstream-status" id="authStatus"></div>
+      <div class="upstream-status" id="upstreamStatus"></div>
     </header>
 
     <div id="loading" class="loading">
@@ -688,6 +1497,22 @@ export class DashboardServer {
           </label>
           <span class="text-muted" id="autoRefreshStatus">Every 5s</span>
         </div>
+        <div class="controls-group">
+          <label class="text-muted" for="timeWindowSelect">Period</label>
+          <select id="timeWindowSelect" class="select">
+            <option value="">All time</option>
+            <option value="1">Last 24 hours</option>
+            <option value="7">Last 7 days</option>
+            <option value="30">Last 30 days</option>
+            <option value="90">Last 90 days</option>
+          </select>
+        </div>
+        <div class="controls-group">
+          <label class="text-muted" for="providerFilterSelect">Provider</label>
+          <select id="providerFilterSelect" class="select">
+            <option value="">All providers</option>
+          </select>
+        </div>
         <div class="controls-group">
           <button id="refreshBtn" class="btn">Refresh Now</button>
           <span id="loadingSpinner" class="spinner" style="display:none"></span>
@@ -700,33 +1525,79 @@ export class DashboardServer {
         </div>
       </div>
 
-      <div class="stats-grid">
-        <div class="stat-card">
-          <h2>Total Messages</h2>
-          <div class="stat-value" id="totalMessages">0</div>
-        </div>
-        <div class="stat-card">
-          <h2>Total Emotes Used</h2>
-          <div class="stat-value" id="totalEmotes">0</div>
+      <div id="recoveryBanner" class="alert" style="display:none"></div>
+
+      <div class="tabs" role="tablist">
+        <button class="tab" role="tab" data-tab="overview">Overview</button>
+        <button class="tab" role="tab" data-tab="stale">Stale Emotes</button>
+        <button class="tab" role="tab" data-tab="changes">Changes</button>
+      </div>
+
+      <div id="overviewTab">
+        <div class="stats-grid">
+          <div class="stat-card">
+            <h2>Total Messages</h2>
+            <div class="stat-value" id="totalMessages">0</div>
+          </div>
+          <div class="stat-card">
+            <h2>Total Emotes Used</h2>
+            <div class="stat-value" id="totalEmotes">0</div>
+          </div>
+          <div class="stat-card">
+            <h2>Channels Tracked</h2>
+            <div class="stat-value" id="totalChannels">0</div>
+          </div>
         </div>
-        <div class="stat-card">
-          <h2>Channels Tracked</h2>
-          <div class="stat-value" id="totalChannels">0</div>
+
+        <div class="top-emotes">
+          <h2>Top Emotes (All Channels)</h2>
+          <div class="emote-list" id="topEmotes"></div>
         </div>
-      </div>
 
-      <div class="top-emotes">
-        <h2>Top Emotes (All Channels)</h2>
-        <div class="emote-list" id="topEmotes"></div>
+        <div class="channel-section" id="channels"></div>
+
+        <div id="emoteTables"></div>
       </div>
 
-      <div class="channel-section" id="channels"></div>
+      <div id="staleTab" style="display:none">
+        <div class="controls-bar">
+          <div class="controls-group">
+            <label class="text-muted" for="staleChannelSelect">Channel</label>
+            <select id="staleChannelSelect" class="select"></select>
+          </div>
+          <div class="controls-group">
+            <label class="text-muted" for="staleUnusedDays">Unused for (days)</label>
+            <input type="number" min="0" id="staleUnusedDays" class="number-input">
+          </div>
+          <div class="controls-group">
+            <label class="text-muted" for="staleMinRate">Uses per 1000 msgs below</label>
+            <input type="number" min="0" step="0.1" id="staleMinRate" class="number-input">
+          </div>
+          <div class="controls-group">
+            <label class="text-muted" for="staleGraceDays">Grace period (days)</label>
+            <input type="number" min="0" id="staleGraceDays" class="number-input">
+          </div>
+          <div class="controls-group">
+            <button id="staleApplyBtn" class="btn">Apply</button>
+          </div>
+        </div>
+        <div id="staleResults"></div>
+      </div>
 
-      <div id="emoteTables"></div>
+      <div id="changesTab" style="display:none">
+        <div class="controls-bar">
+          <div class="controls-group">
+            <label class="text-muted" for="changesChannelSelect">Channel</label>
+            <select id="changesChannelSelect" class="select"></select>
+          </div>
+        </div>
+        <div id="changesResults"></div>
+      </div>
     </div>
   </div>
 
   <div id="toastContainer" class="toast-container"></div>
+  <div id="modalContainer"></div>
 
   <script>
   (function() {
@@ -738,8 +1609,15 @@ export class DashboardServer {
       sortStates: {},
       searchFilters: {},
       latestChannelData: [],
+      chatterTracking: false,
       previousEmotes: {},
       autoRefreshEnabled: true,
+      timeWindow: '',
+      providerFilter: '',
+      providers: [],
+      activeTab: 'overview',
+      staleChannel: '',
+      changesChannel: '',
       refreshInterval: null,
       lastUpdated: null
     };
@@ -763,6 +1641,23 @@ export class DashboardServer {
       dom.loadingSpinner = document.getElementById('loadingSpinner');
       dom.themeToggle = document.getElementById('themeToggle');
       dom.themeIcon = document.getElementById('themeIcon');
+      dom.timeWindowSelect = document.getElementById('timeWindowSelect');
+      dom.authStatus = document.getElementById('authStatus');
+      dom.upstreamStatus = document.getElementById('upstreamStatus');
+      dom.providerFilterSelect = document.getElementById('providerFilterSelect');
+      dom.recoveryBanner = document.getElementById('recoveryBanner');
+      dom.modalContainer = document.getElementById('modalContainer');
+      dom.overviewTab = document.getElementById('overviewTab');
+      dom.staleTab = document.getElementById('staleTab');
+      dom.staleChannelSelect = document.getElementById('staleChannelSelect');
+      dom.staleUnusedDays = document.getElementById('staleUnusedDays');
+      dom.staleMinRate = document.getElementById('staleMinRate');
+      dom.staleGraceDays = document.getElementById('staleGraceDays');
+      dom.staleApplyBtn = document.getElementById('staleApplyBtn');
+      dom.staleResults = document.getElementById('staleResults');
+      dom.changesTab = document.getElementById('changesTab');
+      dom.changesChannelSelect = document.getElementById('changesChannelSelect');
+      dom.changesResults = document.getElementById('changesResults');
     }
 
     // =========== HTML Escaping ===========
@@ -809,6 +1704,11 @@ export class DashboardServer {
         if (typeof parsed.autoRefreshEnabled === 'boolean') {
           state.autoRefreshEnabled = parsed.autoRefreshEnabled;
         }
+        if (typeof parsed.timeWindow === 'string') state.timeWindow = parsed.timeWindow;
+        if (typeof parsed.providerFilter === 'string') state.providerFilter = parsed.providerFilter;
+        if (['overview', 'stale', 'changes'].indexOf(parsed.activeTab) !== -1) state.activeTab = parsed.activeTab;
+        if (typeof parsed.staleChannel === 'string') state.staleChannel = parsed.staleChannel;
+        if (typeof parsed.changesChannel === 'string') state.changesChannel = parsed.changesChannel;
       } catch (e) {
         console.warn('[Dashboard] Failed to load saved state:', e);
       }
@@ -819,7 +1719,12 @@ export class DashboardServer {
         localStorage.setItem(STORAGE_KEY, JSON.stringify({
           tableStates: state.tableStates,
           sortStates: state.sortStates,
-          autoRefreshEnabled: state.autoRefreshEnabled
+          autoRefreshEnabled: state.autoRefreshEnabled,
+          timeWindow: state.timeWindow,
+          providerFilter: state.providerFilter,
+          activeTab: state.activeTab,
+          staleChannel: state.staleChannel,
+          changesChannel: state.changesChannel
         }));
       } catch (e) {
         console.warn('[Dashboard] Failed to save state:', e);
@@ -874,7 +1779,7 @@ export class DashboardServer {
       if (dom.loadingSpinner) dom.loadingSpinner.style.display = 'inline-block';
       if (dom.refreshBtn) dom.refreshBtn.disabled = true;
       try {
-        var response = await fetch('/api/stats');
+        var response = await fetch('/api/stats' + (state.timeWindow ? '?days=' + encodeURIComponent(state.timeWindow) : ''));
         if (!response.ok) throw new Error('HTTP ' + response.status);
         var data = await response.json();
         updateDashboard(data);
@@ -887,13 +1792,88 @@ export class DashboardServer {
       }
     }
 
+    // =========== Providers ===========
+    var PROVIDER_LABELS = { '7tv': '7TV', bttv: 'BTTV', ffz: 'FFZ', twitch: 'Twitch' };
+
+    // Emotes recorded before providers were tracked are all from 7TV
+    function emoteProvider(emote) {
+      return emote.provider || '7tv';
+    }
+
+    function providerLabel(provider) {
+      return PROVIDER_LABELS[provider] || provider;
+    }
+
+    // Native Twitch emotes have no public page
+    function emotePageUrl(emote) {
+      var id = encodeURIComponent(emote.emoteId);
+      switch (emoteProvider(emote)) {
+        case 'bttv': return 'https://betterttv.com/emotes/' + id;
+        case 'ffz': return 'https://www.frankerfacez.com/emoticon/' + id;
+        case 'twitch': return '';
+        default: return 'https://7tv.app/emotes/' + id;
+      }
+    }
+
+    // Images go through the dashboard's own cache, in the size that suits the display
+    var IMAGE_SIZE = window.devicePixelRatio > 2 ? '3x' : window.devicePixelRatio > 1 ? '2x' : '1x';
+
+    function emoteImageUrl(emote) {
+      var provider = emoteProvider(emote);
+      var key = provider === '7tv' ? emote.emoteId : provider + ':' + emote.emoteId;
+      return '/img/' + encodeURIComponent(key) + '/' + IMAGE_SIZE;
+    }
+
+    function matchesProvider(emote) {
+      return !state.providerFilter || emoteProvider(emote) === state.providerFilter;
+    }
+
+    function syncProviderOptions(providers) {
+      state.providers = providers || [];
+      var options = '<option value="">All providers</option>' + state.providers.map(function(provider) {
+        return '<option value="' + escapeHtml(provider) + '">' + escapeHtml(providerLabel(provider)) + '</option>';
+      }).join('');
+      if (dom.providerFilterSelect.innerHTML !== options) dom.providerFilterSelect.innerHTML = options;
+      // A saved filter for a provider that is no longer enabled shows everything
+      if (state.providers.indexOf(state.providerFilter) === -1) state.providerFilter = '';
+      dom.providerFilterSelect.value = state.providerFilter;
+    }
+
+    function filterByProvider(data) {
+      return {
+        recovery: data.recovery,
+        chatterTracking: data.chatterTracking,
+        topEmotes: data.topEmotes.filter(matchesProvider),
+        channels: data.channels.map(function(channel) {
+          var filtered = {};
+          Object.keys(channel).forEach(function(key) { filtered[key] = channel[key]; });
+          filtered.emotes = channel.emotes.filter(matchesProvider);
+          return filtered;
+        })
+      };
+    }
+
+    // Provider and global tags; the tooltip names emotes hidden by this one
+    function renderEmoteTags(emote) {
+      var html = '';
+      if (state.providers.length > 1) {
+        var title = emote.shadows && emote.shadows.length
+          ? 'Takes precedence over the ' + emote.shadows.map(providerLabel).join(', ') + ' emote with the same name'
+          : providerLabel(emoteProvider(emote)) + ' emote';
+        html += '<span class="emote-tag" title="' + escapeHtml(title) + '">' + escapeHtml(providerLabel(emoteProvider(emote))) + '</span>';
+      }
+      if (emote.global) {
+        html += '<span class="emote-tag" title="Global emote, available in every channel">Global</span>';
+      }
+      return html;
+    }
+
     // =========== Rendering ===========
     function renderEmote(emote) {
       var hasMetadata = emote.emoteId && emote.imageUrl;
       var safeName = escapeHtml(emote.emoteName);
-      var safeUrl = escapeHtml(emote.imageUrl);
-      var safeId = escapeHtml(emote.emoteId);
-      var emoteLink = hasMetadata ? 'https://7tv.app/emotes/' + safeId : '#';
+      var safeUrl = hasMetadata ? escapeHtml(emoteImageUrl(emote)) : '';
+      var emoteLink = hasMetadata ? escapeHtml(emotePageUrl(emote)) : '';
       var imageHtml = hasMetadata
         ? '<img src="' + safeUrl + '" alt="' + safeName + '" class="emote-image" loading="lazy">'
         : '<div class="no-emote-image">?</div>';
@@ -902,8 +1882,8 @@ export class DashboardServer {
         ? escapeHtml(emote.emoteName.substring(0, 14)) + '...'
         : safeName;
 
-      var wrapper = hasMetadata ? 'a' : 'div';
-      var linkAttrs = hasMetadata ? 'href="' + emoteLink + '" target="_blank" rel="noopener noreferrer"' : '';
+      var wrapper = emoteLink ? 'a' : 'div';
+      var linkAttrs = emoteLink ? 'href="' + emoteLink + '" target="_blank" rel="noopener noreferrer"' : '';
       var countClass = emote.count === 0 ? 'emote-count emote-count--zero' : 'emote-count';
 
       return '<' + wrapper + ' class="emote-item" ' + linkAttrs + ' title="' + safeName + '">'
@@ -913,33 +1893,157 @@ export class DashboardServer {
         + '</' + wrapper + '>';
     }
 
-    function renderTableRow(emote, isNew) {
+    function renderTableRow(emote, isNew, channelId, showBothCounts, showRawCounts) {
       var hasMetadata = emote.emoteId && emote.imageUrl;
       var safeName = escapeHtml(emote.emoteName);
-      var safeUrl = escapeHtml(emote.imageUrl);
-      var safeId = escapeHtml(emote.emoteId);
+      var safeUrl = hasMetadata ? escapeHtml(emoteImageUrl(emote)) : '';
       var imageHtml = hasMetadata
         ? '<img src="' + safeUrl + '" alt="' + safeName + '" class="emote-table-image" loading="lazy">'
         : '?';
-      var linkHtml = hasMetadata
-        ? '<a href="https://7tv.app/emotes/' + safeId + '" target="_blank" rel="noopener noreferrer" class="emote-table-link">View</a>'
+      var pageUrl = hasMetadata ? emotePageUrl(emote) : '';
+      var linkHtml = pageUrl
+        ? '<a href="' + escapeHtml(pageUrl) + '" target="_blank" rel="noopener noreferrer" class="emote-table-link">View</a>'
         : '-';
 
       var rowClass = 'emote-table-row';
       if (emote.count === 0) rowClass += ' emote-table-row--unused';
       if (isNew) rowClass += ' emote-table-row--new';
 
+      // Previous aliases, so renamed emotes can still be found by their old name
+      var aliasHtml = emote.aliasHistory && emote.aliasHistory.length
+        ? ' <span class="alias-note">(was ' + emote.aliasHistory.map(function(a) { return escapeHtml(a.name); }).join(', ') + ')</span>'
+        : '';
+      var tagsHtml = renderEmoteTags(emote);
+
+      var chattersHtml = '';
+      if (state.chatterTracking) {
+        chattersHtml = '<td>' + (emote.count > 0
+          ? '<button class="btn btn--small" data-action="chatters" data-channel="' + escapeHtml(channelId) + '" data-emote="' + safeName + '">Top</button>'
+          : '-') + '</td>';
+      }
+
       return '<tr class="' + rowClass + '">'
         + '<td>' + imageHtml + '</td>'
-        + '<td>' + safeName + '</td>'
+        + '<td>' + safeName + tagsHtml + aliasHtml + '</td>'
         + '<td><strong>' + emote.count + '</strong></td>'
-        + '<td>' + linkHtml + '</td></tr>';
+        + '<td>' + (emote.reach || 0) + '</td>'
+        + (showRawCounts ? '<td>' + rawCount(emote) + '</td>' : '')
+        + (showBothCounts
+          ? '<td>' + (emote.messageCount || 0) + '</td><td>' + (emote.instanceCount || 0) + '</td>'
+          : '')
+        + '<td>' + linkHtml + '</td>'
+        + chattersHtml + '</tr>';
+    }
+
+    // Emote lists restored from disk because the providers couldn't be reached since the restart
+    function renderStaleEmoteList(staleList) {
+      if (!staleList) return '';
+      var title = 'Could not fetch ' + staleList.providers.map(providerLabel).join(', ')
+        + ' emotes since the restart; showing the emotes saved ' + new Date(staleList.fetchedAt).toLocaleString();
+      return '<span class="stale-list-tag" title="' + escapeHtml(title) + '">Emotes from ' + escapeHtml(relativeTime(staleList.fetchedAt)) + '</span>';
+    }
+
+    // Counted uses plus uses suppressed by the spam filter
+    function rawCount(emote) {
+      return emote.count + (emote.suppressedCount || 0);
+    }
+
+    function renderRecoveryBanner(recovery) {
+      if (!recovery) {
+        dom.recoveryBanner.style.display = 'none';
+        return;
+      }
+      var when = new Date(recovery.recoveredAt).toLocaleString();
+      var html = recovery.restoredFrom
+        ? '<strong>Statistics were restored from a backup</strong> on ' + escapeHtml(when)
+          + ' (' + escapeHtml(recovery.reason) + '). Restored from ' + escapeHtml(recovery.restoredFrom) + '; usage since that backup was lost.'
+        : '<strong>Statistics could not be recovered</strong> on ' + escapeHtml(when)
+          + ' (' + escapeHtml(recovery.reason) + '). Tracking restarted from zero.';
+      if (recovery.corruptFile) {
+        html += ' The damaged file was kept at ' + escapeHtml(recovery.corruptFile) + '.';
+      }
+      dom.recoveryBanner.className = recovery.restoredFrom ? 'alert' : 'alert alert--error';
+      dom.recoveryBanner.innerHTML = html;
+      dom.recoveryBanner.style.display = 'block';
+    }
+
+    // One pill per upstream: green if every channel's last request succeeded,
+    // amber if some failed, red if all failed. Paused hosts are listed separately.
+    function renderUpstreamStatus(channels, hosts) {
+      var sources = {};
+      var order = [];
+      channels.forEach(function(channel) {
+        (channel.upstreams || []).forEach(function(status) {
+          if (!sources[status.source]) {
+            sources[status.source] = { ok: 0, failing: [] };
+            order.push(status.source);
+          }
+          if (status.ok) {
+            sources[status.source].ok++;
+          } else {
+            sources[status.source].failing.push('#' + channel.channelName + ': ' + status.error);
+          }
+        });
+      });
+
+      var html = order.map(function(source) {
+        var entry = sources[source];
+        var modifier = entry.failing.length === 0 ? '' : entry.ok > 0 ? ' upstream-pill--degraded' : ' upstream-pill--down';
+        var title = entry.failing.length === 0
+          ? providerLabel(source) + ' is reachable for every channel'
+          : 'Failing for ' + entry.failing.join('; ');
+        return '<span class="upstream-pill' + modifier + '" title="' + escapeHtml(title) + '">'
+          + '<span class="upstream-dot"></span>' + escapeHtml(providerLabel(source)) + '</span>';
+      }).join('');
+
+      html += (hosts || []).filter(function(host) { return host.state === 'open'; }).map(function(host) {
+        var title = host.lastError + ', next attempt ' + new Date(host.retryAt).toLocaleTimeString();
+        return '<span class="upstream-pill upstream-pill--down" title="' + escapeHtml(title) + '">'
+          + '<span class="upstream-dot"></span>' + escapeHtml(host.host) + ' paused</span>';
+      }).join('');
+
+      dom.upstreamStatus.innerHTML = html;
+    }
+
+    // Which account the bot reads chat as, and when its access token expires
+    function renderAuthStatus(auth) {
+      if (!auth) {
+        dom.authStatus.innerHTML = '';
+        return;
+      }
+
+      var label, title, modifier = '';
+      if (auth.anonymous) {
+        label = 'Anonymous (read-only)';
+        title = 'Reading chat as a guest without a token';
+      } else if (!auth.token) {
+        label = 'Not signed in';
+        title = 'No token loaded; sign in with POST /auth/login';
+        modifier = ' upstream-pill--down';
+      } else {
+        var token = auth.token;
+        var expiry = token.expiresAt
+          ? (token.expiresAt > Date.now() ? 'expires ' : 'expired ') + new Date(token.expiresAt).toLocaleString() + ', refreshed automatically'
+          : 'expiry unknown';
+        label = 'Signed in as ' + (token.userName || token.userId);
+        title = 'Scopes: ' + (token.scopes.length > 0 ? token.scopes.join(', ') : 'none')
+          + '. Access token ' + expiry + '. Sign in again with POST /auth/login.';
+      }
+
+      dom.authStatus.innerHTML = '<span class="upstream-pill' + modifier + '" title="' + escapeHtml(title) + '">'
+        + '<span class="upstream-dot"></span>' + escapeHtml(label) + '</span>';
     }
 
     function updateDashboard(data) {
       dom.loading.style.display = 'none';
       dom.content.style.display = 'block';
 
+      renderRecoveryBanner(data.recovery);
+      renderAuthStatus(data.auth);
+      renderUpstreamStatus(data.channels, data.upstreamHosts);
+      syncProviderOptions(data.providers);
+      data = filterByProvider(data);
+
       var totalMessages = data.channels.reduce(function(sum, ch) { return sum + ch.totalMessages; }, 0);
       var totalEmotes = data.channels.reduce(function(sum, ch) { return sum + ch.totalEmotesUsed; }, 0);
 
@@ -953,10 +2057,16 @@ export class DashboardServer {
         var safeChannel = escapeHtml(channel.channelName);
         return '<div class="channel-card">'
           + '<div class="channel-header">'
-          + '<div class="channel-name">#' + safeChannel + '</div>'
+          + '<div class="channel-name">#' + safeChannel + renderStaleEmoteList(channel.staleEmoteList) + '</div>'
           + '<div class="channel-stats">'
           + '<div class="channel-stat"><div class="channel-stat-value">' + channel.totalMessages.toLocaleString() + '</div><div class="channel-stat-label">Messages</div></div>'
           + '<div class="channel-stat"><div class="channel-stat-value">' + channel.totalEmotesUsed.toLocaleString() + '</div><div class="channel-stat-label">Emotes</div></div>'
+          + (channel.totalGlobalEmotesUsed
+            ? '<div class="channel-stat" title="Uses of global emotes, not included in Emotes"><div class="channel-stat-value">' + channel.totalGlobalEmotesUsed.toLocaleString() + '</div><div class="channel-stat-label">Global</div></div>'
+            : '')
+          + (channel.ignoredMessages != null
+            ? '<div class="channel-stat" title="Messages from bots and ignored chatters"><div class="channel-stat-value">' + channel.ignoredMessages.toLocaleString() + '</div><div class="channel-stat-label">Ignored</div></div>'
+            : '')
           + '</div></div>'
           + '<div class="emote-list">' + channel.emotes.slice(0, 10).map(renderEmote).join('') + '</div>'
           + '</div>';
@@ -981,6 +2091,8 @@ export class DashboardServer {
       });
 
       state.latestChannelData = data.channels;
+      syncChannelSelects(data.channels);
+      state.chatterTracking = !!data.chatterTracking;
       renderEmoteTables(data.channels, newEmoteSets);
 
       state.lastUpdated = Date.now();
@@ -1006,6 +2118,8 @@ export class DashboardServer {
         var usedEmotes = channel.emotes.filter(function(e) { return e.count > 0; });
         var unusedCount = channel.emotes.length - usedEmotes.length;
         var newSet = newEmoteSets[channelId] || {};
+        var showBothCounts = channel.emotes.some(function(e) { return e.instanceCount != null; });
+        var showRawCounts = channel.emotes.some(function(e) { return e.suppressedCount != null; });
 
         var sortState = state.sortStates[channelId] || { column: 'count', direction: 'desc' };
 
@@ -1027,9 +2141,14 @@ export class DashboardServer {
             var cmp = a.emoteName.localeCompare(b.emoteName);
             return sortState.direction === 'asc' ? cmp : -cmp;
           });
-        } else if (sortState.column === 'count') {
+        } else if (['count', 'reach', 'messageCount', 'instanceCount'].indexOf(sortState.column) !== -1) {
           sortedEmotes.sort(function(a, b) {
-            var cmp = a.count - b.count;
+            var cmp = (a[sortState.column] || 0) - (b[sortState.column] || 0);
+            return sortState.direction === 'asc' ? cmp : -cmp;
+          });
+        } else if (sortState.column === 'rawCount') {
+          sortedEmotes.sort(function(a, b) {
+            var cmp = rawCount(a) - rawCount(b);
             return sortState.direction === 'asc' ? cmp : -cmp;
           });
         }
@@ -1049,10 +2168,19 @@ export class DashboardServer {
             + '<th>Preview</th>'
             + '<th data-action="sort" data-channel="' + safeChannelId + '" data-column="name" aria-sort="' + ariaSort('name') + '">Name ' + sortIcon('name') + '</th>'
             + '<th data-action="sort" data-channel="' + safeChannelId + '" data-column="count" aria-sort="' + ariaSort('count') + '">Uses ' + sortIcon('count') + '</th>'
+            + '<th data-action="sort" data-channel="' + safeChannelId + '" data-column="reach" aria-sort="' + ariaSort('reach') + '" title="Approximate number of distinct chatters">Reach ' + sortIcon('reach') + '</th>'
+            + (showRawCounts
+              ? '<th data-action="sort" data-channel="' + safeChannelId + '" data-column="rawCount" aria-sort="' + ariaSort('rawCount') + '" title="Uses including those suppressed by the spam filter">Raw ' + sortIcon('rawCount') + '</th>'
+              : '')
+            + (showBothCounts
+              ? '<th data-action="sort" data-channel="' + safeChannelId + '" data-column="messageCount" aria-sort="' + ariaSort('messageCount') + '" title="Messages containing the emote">Messages ' + sortIcon('messageCount') + '</th>'
+                + '<th data-action="sort" data-channel="' + safeChannelId + '" data-column="instanceCount" aria-sort="' + ariaSort('instanceCount') + '" title="Total occurrences of the emote">Instances ' + sortIcon('instanceCount') + '</th>'
+              : '')
             + '<th>Link</th>'
+            + (state.chatterTracking ? '<th>Chatters</th>' : '')
             + '</tr></thead>'
             + '<tbody id="table-body-' + safeChannelId + '">'
-            + sortedEmotes.map(function(emote) { return renderTableRow(emote, !!newSet[emote.emoteName]); }).join('')
+            + sortedEmotes.map(function(emote) { return renderTableRow(emote, !!newSet[emote.emoteName], channelId, showBothCounts, showRawCounts); }).join('')
             + '</tbody></table></div>';
         } else {
           tableContent = '<p style="text-align:center;padding:var(--space-lg);color:var(--color-text-muted);">Click to expand and view all emotes</p>';
@@ -1097,6 +2225,219 @@ export class DashboardServer {
       });
     }
 
+    // =========== Chatter Details ===========
+    function openModal(title, bodyHtml) {
+      dom.modalContainer.innerHTML = '<div class="modal-overlay">'
+        + '<div class="modal" role="dialog" aria-modal="true">'
+        + '<div class="modal-header"><h3>' + title + '</h3>'
+        + '<button class="btn btn--small" data-action="close-modal" aria-label="Close">&#x2715;</button></div>'
+        + '<div class="modal-body">' + bodyHtml + '</div>'
+        + '</div></div>';
+    }
+
+    function closeModal() {
+      dom.modalContainer.innerHTML = '';
+    }
+
+    function setModalBody(html) {
+      var body = dom.modalContainer.querySelector('.modal-body');
+      if (body) body.innerHTML = html;
+    }
+
+    async function fetchJson(url) {
+      var response = await fetch(url);
+      var data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'HTTP ' + response.status);
+      return data;
+    }
+
+    async function showEmoteChatters(channelId, emoteName) {
+      openModal('Top chatters for ' + escapeHtml(emoteName) + ' in #' + escapeHtml(channelId), '<div class="spinner"></div>');
+      try {
+        var data = await fetchJson('/api/channels/' + encodeURIComponent(channelId)
+          + '/emotes/' + encodeURIComponent(emoteName) + '/chatters?limit=20');
+        var channel = state.latestChannelData.find(function(c) { return c.channelName === channelId; });
+        var emote = channel && channel.emotes.find(function(e) { return e.emoteName === emoteName; });
+        var total = data.chatters.reduce(function(sum, c) { return sum + c.count; }, 0);
+        if (emote && emote.count > total) total = emote.count;
+
+        if (data.chatters.length === 0) {
+          setModalBody('<p class="text-muted">No chatter data recorded for this emote yet.</p>');
+          return;
+        }
+        setModalBody('<ul class="chatter-list">' + data.chatters.map(function(chatter) {
+          var share = total > 0 ? Math.round(chatter.count / total * 100) : 0;
+          return '<li class="chatter-item">'
+            + '<button class="chatter-link" data-action="chatter" data-channel="' + escapeHtml(channelId) + '" data-user="' + escapeHtml(chatter.userId) + '">'
+            + escapeHtml(chatter.displayName) + '</button>'
+            + '<span><strong>' + chatter.count.toLocaleString() + '</strong> <span class="chatter-share">(' + share + '%)</span></span>'
+            + '</li>';
+        }).join('') + '</ul>');
+      } catch (error) {
+        setModalBody('<p class="text-muted">' + escapeHtml(error instanceof Error ? error.message : String(error)) + '</p>');
+      }
+    }
+
+    async function showChatter(channelId, user) {
+      openModal('Chatter in #' + escapeHtml(channelId), '<div class="spinner"></div>');
+      try {
+        var data = await fetchJson('/api/channels/' + encodeURIComponent(channelId) + '/users/' + encodeURIComponent(user));
+        var header = dom.modalContainer.querySelector('.modal-header h3');
+        if (header) header.textContent = data.displayName + ' in #' + channelId;
+        setModalBody('<p class="text-muted">' + data.totalEmotes.toLocaleString() + ' emotes used, last seen ' + escapeHtml(relativeTime(data.lastSeen)) + '</p>'
+          + '<ul class="chatter-list">' + data.emotes.slice(0, 50).map(function(e) {
+            return '<li class="chatter-item"><span>' + escapeHtml(e.emoteName) + '</span><strong>' + e.count.toLocaleString() + '</strong></li>';
+          }).join('') + '</ul>');
+      } catch (error) {
+        setModalBody('<p class="text-muted">' + escapeHtml(error instanceof Error ? error.message : String(error)) + '</p>');
+      }
+    }
+
+    // =========== Tabs ===========
+    function showTab(tab) {
+      state.activeTab = tab;
+      saveState();
+      dom.overviewTab.style.display = tab === 'overview' ? '' : 'none';
+      dom.staleTab.style.display = tab === 'stale' ? '' : 'none';
+      dom.changesTab.style.display = tab === 'changes' ? '' : 'none';
+      document.querySelectorAll('[data-tab]').forEach(function(el) {
+        var active = el.dataset.tab === tab;
+        el.classList.toggle('tab--active', active);
+        el.setAttribute('aria-selected', active ? 'true' : 'false');
+      });
+      if (tab === 'stale') fetchStaleEmotes();
+      if (tab === 'changes') fetchEmoteChanges();
+    }
+
+    function syncChannelSelects(channels) {
+      var names = channels.map(function(c) { return c.channelName; });
+      var current = Array.prototype.map.call(dom.staleChannelSelect.options, function(o) { return o.value; });
+      if (names.join(',') === current.join(',')) return;
+
+      var options = names.map(function(name) {
+        return '<option value="' + escapeHtml(name) + '">#' + escapeHtml(name) + '</option>';
+      }).join('');
+      dom.staleChannelSelect.innerHTML = options;
+      dom.changesChannelSelect.innerHTML = options;
+      if (names.indexOf(state.staleChannel) === -1) state.staleChannel = names[0] || '';
+      if (names.indexOf(state.changesChannel) === -1) state.changesChannel = names[0] || '';
+      dom.staleChannelSelect.value = state.staleChannel;
+      dom.changesChannelSelect.value = state.changesChannel;
+      if (state.activeTab === 'stale') fetchStaleEmotes();
+      if (state.activeTab === 'changes') fetchEmoteChanges();
+    }
+
+    // =========== Stale Emotes ===========
+
+    async function fetchStaleEmotes() {
+      if (!state.staleChannel) {
+        dom.staleResults.innerHTML = '<p class="text-muted">No channels tracked yet.</p>';
+        return;
+      }
+
+      // Empty inputs fall back to the server defaults
+      var params = [];
+      [['unusedDays', dom.staleUnusedDays], ['minUsesPer1000', dom.staleMinRate], ['graceDays', dom.staleGraceDays]].forEach(function(entry) {
+        if (entry[1].value !== '') params.push(entry[0] + '=' + encodeURIComponent(entry[1].value));
+      });
+
+      dom.staleResults.innerHTML = '<div class="spinner"></div>';
+      try {
+        var report = await fetchJson('/api/channels/' + encodeURIComponent(state.staleChannel) + '/stale'
+          + (params.length ? '?' + params.join('&') : ''));
+        dom.staleUnusedDays.placeholder = report.criteria.unusedDays;
+        dom.staleMinRate.placeholder = report.criteria.minUsesPer1000;
+        dom.staleGraceDays.placeholder = report.criteria.graceDays;
+        renderStaleEmotes(report);
+      } catch (error) {
+        dom.staleResults.innerHTML = '<p class="text-muted">' + escapeHtml(error instanceof Error ? error.message : String(error)) + '</p>';
+      }
+    }
+
+    function renderStaleEmotes(report) {
+      var summary = '<div class="table-stats">'
+        + '<div class="table-stat-item"><span class="table-stat-label">Removal Candidates</span><span class="table-stat-value">' + report.emotes.length + '</span></div>'
+        + '<div class="table-stat-item"><span class="table-stat-label">In Grace Period</span><span class="table-stat-value">' + report.inGracePeriod + '</span></div>'
+        + '<div class="table-stat-item" title="Usage is only measured from here on"><span class="table-stat-label">Tracking Since</span><span class="table-stat-value">'
+        + (report.trackingSince ? escapeHtml(new Date(report.trackingSince).toLocaleDateString()) : '-') + '</span></div>'
+        + '</div>';
+
+      if (report.emotes.length === 0) {
+        dom.staleResults.innerHTML = summary + '<p class="text-muted">No emotes match the criteria.</p>';
+        return;
+      }
+
+      dom.staleResults.innerHTML = summary
+        + '<div class="table-wrapper"><table class="emote-table">'
+        + '<thead><tr><th>Preview</th><th>Name</th><th>Added</th><th>Last Used</th><th>Days Unused</th><th>Uses</th>'
+        + '<th title="Uses per 1000 messages since the emote was added or tracking began">Per 1000 Msgs</th><th>Reason</th></tr></thead>'
+        + '<tbody>' + report.emotes.map(function(emote) {
+          var safeName = escapeHtml(emote.emoteName);
+          var reasons = emote.reasons.map(function(reason) {
+            return '<span class="reason-tag">' + (reason === 'unused' ? 'Unused' : 'Low usage') + '</span>';
+          }).join('');
+          return '<tr class="emote-table-row">'
+            + '<td><img src="' + escapeHtml(emoteImageUrl(emote)) + '" alt="' + safeName + '" class="emote-table-image" loading="lazy"></td>'
+            + '<td>' + safeName + '</td>'
+            + '<td>' + (emote.addedAt
+              ? escapeHtml(new Date(emote.addedAt).toLocaleDateString())
+              : emote.firstSeenAt
+                ? '<span title="First seen by the bot, since the provider does not report when emotes are added">'
+                  + escapeHtml(new Date(emote.firstSeenAt).toLocaleDateString()) + '*</span>'
+                : '-') + '</td>'
+            + '<td>' + escapeHtml(relativeTime(emote.lastUsed)) + '</td>'
+            + '<td>' + emote.daysUnused + '</td>'
+            + '<td>' + emote.uses.toLocaleString() + '</td>'
+            + '<td>' + (emote.usesPer1000 === null ? '-' : emote.usesPer1000.toFixed(2)) + '</td>'
+            + '<td>' + reasons + '</td>'
+            + '</tr>';
+        }).join('') + '</tbody></table></div>';
+    }
+
+    // =========== Emote Set Changes ===========
+    var CHANGE_LABELS = { added: 'Added', removed: 'Removed', renamed: 'Renamed', 'set-switched': 'Set switched' };
+
+    async function fetchEmoteChanges() {
+      if (!state.changesChannel) {
+        dom.changesResults.innerHTML = '<p class="text-muted">No channels tracked yet.</p>';
+        return;
+      }
+
+      dom.changesResults.innerHTML = '<div class="spinner"></div>';
+      try {
+        var data = await fetchJson('/api/channels/' + encodeURIComponent(state.changesChannel) + '/changes?limit=200');
+        renderChangeTimeline(data.changes);
+      } catch (error) {
+        dom.changesResults.innerHTML = '<p class="text-muted">' + escapeHtml(error instanceof Error ? error.message : String(error)) + '</p>';
+      }
+    }
+
+    function describeChange(change) {
+      if (change.type === 'renamed') {
+        return escapeHtml(change.previousName) + ' &rarr; <strong>' + escapeHtml(change.emoteName) + '</strong>';
+      }
+      if (change.type === 'set-switched') {
+        return escapeHtml(change.previousSetId || 'none') + ' &rarr; <strong>' + escapeHtml(change.setName || change.setId || 'none') + '</strong>';
+      }
+      return '<strong>' + escapeHtml(change.emoteName) + '</strong>';
+    }
+
+    function renderChangeTimeline(changes) {
+      if (changes.length === 0) {
+        dom.changesResults.innerHTML = '<p class="text-muted">No changes recorded yet. Changes are detected when the emote set is refreshed.</p>';
+        return;
+      }
+
+      dom.changesResults.innerHTML = '<ul class="timeline">' + changes.map(function(change) {
+        return '<li class="timeline-item">'
+          + '<span class="timeline-time" title="' + escapeHtml(relativeTime(change.timestamp)) + '">' + escapeHtml(new Date(change.timestamp).toLocaleString()) + '</span>'
+          + '<span class="reason-tag">' + (CHANGE_LABELS[change.type] || escapeHtml(change.type)) + '</span>'
+          + '<span>' + describeChange(change) + '</span>'
+          + (change.actorId ? '<span class="timeline-actor">by ' + escapeHtml(change.actorId) + '</span>' : '')
+          + '</li>';
+      }).join('') + '</ul>';
+    }
+
     // =========== Table Interactions ===========
     function toggleTable(channelId) {
       state.tableStates[channelId] = !state.tableStates[channelId];
@@ -1113,7 +2454,7 @@ export class DashboardServer {
         state.sortStates[channelId].direction = state.sortStates[channelId].direction === 'asc' ? 'desc' : 'asc';
       } else {
         state.sortStates[channelId].column = column;
-        state.sortStates[channelId].direction = column === 'count' ? 'desc' : 'asc';
+        state.sortStates[channelId].direction = column === 'name' ? 'asc' : 'desc';
       }
 
       saveState();
@@ -1165,6 +2506,27 @@ export class DashboardServer {
           sortTable(sortEl.dataset.channel, sortEl.dataset.column);
           return;
         }
+        var chattersEl = e.target.closest('[data-action="chatters"]');
+        if (chattersEl) {
+          showEmoteChatters(chattersEl.dataset.channel, chattersEl.dataset.emote);
+          return;
+        }
+      });
+
+      // Modal interactions
+      dom.modalContainer.addEventListener('click', function(e) {
+        var chatterEl = e.target.closest('[data-action="chatter"]');
+        if (chatterEl) {
+          showChatter(chatterEl.dataset.channel, chatterEl.dataset.user);
+          return;
+        }
+        // Close on the close button or a click on the backdrop itself
+        if (e.target.closest('[data-action="close-modal"]') || e.target.classList.contains('modal-overlay')) {
+          closeModal();
+        }
+      });
+      document.addEventListener('keydown', function(e) {
+        if (e.key === 'Escape') closeModal();
       });
 
       // Search input
@@ -1185,8 +2547,44 @@ export class DashboardServer {
       // Refresh button
       dom.refreshBtn.addEventListener('click', function() { fetchStats(); });
 
+      // Time window selector
+      dom.timeWindowSelect.addEventListener('change', function() {
+        state.timeWindow = dom.timeWindowSelect.value;
+        state.previousEmotes = {};
+        saveState();
+        fetchStats();
+      });
+
+      // Provider filter
+      dom.providerFilterSelect.addEventListener('change', function() {
+        state.providerFilter = dom.providerFilterSelect.value;
+        state.previousEmotes = {};
+        saveState();
+        fetchStats();
+      });
+
       // Theme toggle
       dom.themeToggle.addEventListener('click', toggleTheme);
+
+      // Tabs
+      document.querySelectorAll('[data-tab]').forEach(function(el) {
+        el.addEventListener('click', function() { showTab(el.dataset.tab); });
+      });
+
+      // Stale emote report
+      dom.staleChannelSelect.addEventListener('change', function() {
+        state.staleChannel = dom.staleChannelSelect.value;
+        saveState();
+        fetchStaleEmotes();
+      });
+      dom.staleApplyBtn.addEventListener('click', function() { fetchStaleEmotes(); });
+
+      // Emote set changes
+      dom.changesChannelSelect.addEventListener('change', function() {
+        state.changesChannel = dom.changesChannelSelect.value;
+        saveState();
+        fetchEmoteChanges();
+      });
     }
 
     // =========== Init ===========
@@ -1195,7 +2593,9 @@ export class DashboardServer {
       loadState();
       updateThemeIcon(getTheme());
       syncAutoRefreshUI();
+      dom.timeWindowSelect.value = state.timeWindow;
       bindEvents();
+      showTab(state.activeTab);
       fetchStats();
       if (state.autoRefreshEnabled) startAutoRefresh();
       // Update relative time every second